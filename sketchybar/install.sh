@@ -51,7 +51,7 @@ if [ -z "$NODE_PATH" ]; then
   exit 1
 fi
 
-# Install launchd job for periodic refresh
+# Install launchd job that keeps `thinktax watch` collecting in the background
 PLIST_FILE="$LAUNCHD_DIR/com.thinktax.refresh.plist"
 cat > "$PLIST_FILE" << EOF
 <?xml version="1.0" encoding="UTF-8"?>
@@ -64,10 +64,10 @@ cat > "$PLIST_FILE" << EOF
     <array>
         <string>${NODE_PATH}</string>
         <string>${THINKTAX_BIN}</string>
-        <string>refresh</string>
+        <string>watch</string>
     </array>
-    <key>StartInterval</key>
-    <integer>300</integer>
+    <key>KeepAlive</key>
+    <true/>
     <key>RunAtLoad</key>
     <true/>
     <key>StandardOutPath</key>
@@ -87,7 +87,7 @@ EOF
 launchctl unload "$PLIST_FILE" 2>/dev/null || true
 launchctl load "$PLIST_FILE"
 
-echo "✓ Installed launchd job for periodic refresh (every 5 minutes)"
+echo "✓ Installed launchd job for continuous collection (thinktax watch)"
 
 echo ""
 echo "Installation complete!"
@@ -99,5 +99,5 @@ echo ""
 echo "  2. Restart sketchybar:"
 echo "     sketchybar --reload"
 echo ""
-echo "  3. Run initial data collection:"
-echo "     node $THINKTAX_BIN refresh"
+echo "  3. Data is collected by the watch job; check it with:"
+echo "     tail -f ${HOME}/.local/state/thinktax/refresh.log"
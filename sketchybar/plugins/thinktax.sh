@@ -20,7 +20,7 @@ if [ -n "$PAYLOAD" ]; then
   THINKTAX_LINES=()
   while IFS= read -r line; do
     THINKTAX_LINES+=("$line")
-  done < <(printf '%s' "$PAYLOAD" | node -e 'const fs=require("fs"); const data=JSON.parse(fs.readFileSync(0,"utf8")); const today=data.today ?? {}; const mtd=data.mtd ?? {}; console.log(today.total?.label ?? "-"); console.log(today.providers?.cursor?.label ?? "-"); console.log(today.providers?.claude?.label ?? "-"); console.log(today.providers?.codex?.label ?? "-"); console.log(mtd.total?.label ?? "-"); console.log(mtd.providers?.cursor?.label ?? "-"); console.log(mtd.providers?.claude?.label ?? "-"); console.log(mtd.providers?.codex?.label ?? "-"); console.log(data.stale ? "1" : "0"); console.log(data.estimateOnly ? "1" : "0");')
+  done < <(printf '%s' "$PAYLOAD" | node -e 'const fs=require("fs"); const data=JSON.parse(fs.readFileSync(0,"utf8")); const today=data.today ?? {}; const mtd=data.mtd ?? {}; console.log(today.total?.label ?? "-"); console.log(today.providers?.cursor?.label ?? "-"); console.log(today.providers?.claude?.label ?? "-"); console.log(today.providers?.codex?.label ?? "-"); console.log(mtd.total?.label ?? "-"); console.log(mtd.providers?.cursor?.label ?? "-"); console.log(mtd.providers?.claude?.label ?? "-"); console.log(mtd.providers?.codex?.label ?? "-"); console.log(data.stale ? "1" : "0"); console.log(data.estimateOnly ? "1" : "0"); console.log(data.overBudget ? "1" : "0"); console.log(data.budgetWarning ? "1" : "0");')
   TODAY_TOTAL="${THINKTAX_LINES[0]:--}"
   TODAY_CURSOR="${THINKTAX_LINES[1]:--}"
   TODAY_CLAUDE="${THINKTAX_LINES[2]:--}"
@@ -31,6 +31,8 @@ if [ -n "$PAYLOAD" ]; then
   MTD_CODEX="${THINKTAX_LINES[7]:--}"
   STALE_FLAG="${THINKTAX_LINES[8]:-0}"
   ESTIMATE_FLAG="${THINKTAX_LINES[9]:-0}"
+  OVER_BUDGET_FLAG="${THINKTAX_LINES[10]:-0}"
+  BUDGET_WARNING_FLAG="${THINKTAX_LINES[11]:-0}"
 else
   TODAY_TOTAL="--"
   TODAY_CURSOR="--"
@@ -42,11 +44,15 @@ else
   MTD_CODEX="--"
   STALE_FLAG="1"
   ESTIMATE_FLAG="0"
+  OVER_BUDGET_FLAG="0"
+  BUDGET_WARNING_FLAG="0"
 fi
 
 LABEL_COLOR=$COLOR_FG
-if [ "$STALE_FLAG" = "1" ]; then
+if [ "$STALE_FLAG" = "1" ] || [ "$OVER_BUDGET_FLAG" = "1" ]; then
   LABEL_COLOR=$COLOR_RED
+elif [ "$BUDGET_WARNING_FLAG" = "1" ]; then
+  LABEL_COLOR=$COLOR_YELLOW
 elif [ "$ESTIMATE_FLAG" = "1" ]; then
   LABEL_COLOR=${COLOR_FG_SECONDARY:-$COLOR_FG}
 fi
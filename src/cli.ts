@@ -1,34 +1,132 @@
 import { Command } from "commander";
-import { DateTime } from "luxon";
+import { DateTime, Info } from "luxon";
 import fs from "node:fs";
 import path from "node:path";
 import asciichart from "asciichart";
 import sparkly from "sparkly";
 import * as vega from "vega";
 import * as vegaLite from "vega-lite";
-import { collectClaude } from "./collectors/claude.js";
-import { collectCodex } from "./collectors/codex.js";
-import { collectCursor, buildWorkspaceActivityMap, findProjectForTimestamp } from "./collectors/cursor.js";
-import { collectOpenClaw } from "./collectors/openclaw.js";
-import { collectApprentice } from "./collectors/apprentice.js";
-import { collectGlean } from "./collectors/glean.js";
-import { collectReviewCrew } from "./collectors/review-crew.js";
-import { loadConfig, resolveTimezone, resolveBillingSessionsFile } from "./core/config.js";
+import { collapseClaudeEvents, attributeClaudeEvents } from "./collectors/claude.js";
+import { buildWorkspaceActivityMap, findProjectForTimestamp } from "./collectors/cursor.js";
+import { loadCollectors, selectCollectors } from "./collectors/registry.js";
+import type { Collector } from "./collectors/registry.js";
+import {
+  loadConfig,
+  resolveTimezone,
+  resolveBillingSessionsFile,
+  resolveWeekStart,
+} from "./core/config.js";
 import { applyCosting } from "./core/cost.js";
-import { loadSummaries, loadEventsForRange, aggregateEvents } from "./core/aggregate.js";
+import {
+  BREAKDOWN_KEYS,
+  BreakdownKey,
+  loadEventsForRange,
+  aggregateEvents,
+  buildPeriodSeries,
+  isBreakdownKey,
+  loadAllEvents,
+} from "./core/aggregate.js";
+import { loadRangeSummary, loadSummaries, refreshSnapshots } from "./core/snapshots.js";
+import { ReportRange, parseRange, parseWindow, previousRange } from "./core/ranges.js";
+import { compareSummaries } from "./core/compare.js";
+import {
+  ANOMALY_KINDS,
+  AnomalyKind,
+  isAnomalyKind,
+  loadAnomalies,
+  resolveAnomalyOptions,
+} from "./core/anomalies.js";
+import {
+  SESSION_SORTS,
+  findSessions,
+  isSessionSort,
+  sessionEvents,
+  summarizeSessions,
+} from "./core/sessions.js";
 import { getPaths, ensurePaths } from "./core/paths.js";
-import { loadPricingTable } from "./core/pricing.js";
-import { readSyncState, writeSyncState } from "./core/state.js";
-import { writeEvents, loadAllStoredEvents, overwriteEvents } from "./core/storage.js";
-import { formatBreakdown, formatTotalsLine, formatUsd } from "./cli/utils.js";
+import { isGuessedMatch, loadPricingTable, resolvePricing } from "./core/pricing.js";
+import { lastRefreshTime, readSyncState } from "./core/state.js";
+import { acquireCollectionLock } from "./core/lock.js";
+import { formatRefreshSummary, runRefresh } from "./core/refresh.js";
+import { watchCollectors } from "./core/watch.js";
+import { createApiServer } from "./core/server.js";
+import {
+  STORAGE_BACKENDS,
+  loadAllStoredEvents,
+  overwriteEvents,
+  replaceAllEvents,
+  getStorageBackend,
+  isStorageBackendKind,
+  openStorageBackend,
+  storageBackendExists,
+  useStorageBackend,
+  queryEvents,
+} from "./core/storage.js";
+import {
+  EXPORT_FORMATS,
+  EXPORT_PERIODS,
+  ExportPeriod,
+  buildExportRows,
+  exportColumns,
+  formatExport,
+  isExportFormat,
+  isExportPeriod,
+  unknownExportFields,
+} from "./core/export.js";
+import { evaluateBudgets, worstBudgetState } from "./core/budgets.js";
+import { loadForecast } from "./core/forecast.js";
+import { HEATMAP_METRICS, buildHeatmap, isHeatmapMetric, parseWorkHours } from "./core/heatmap.js";
+import {
+  formatBreakdown,
+  formatAnomalyLine,
+  formatBudgetLine,
+  formatDeltaLine,
+  formatEventLine,
+  formatForecastLine,
+  formatPricingEntry,
+  formatPricingRates,
+  formatSessionLine,
+  formatDuration,
+  formatTokens,
+  formatTotalsLine,
+  formatUsd,
+  formatUsdDelta,
+  renderAsciiChart,
+  renderHeatmapGrid,
+  withRangeOptions,
+} from "./cli/utils.js";
+import { buildReportData, loadVegaRuntime, renderHtmlReport } from "./cli/report.js";
+import { runTui } from "./cli/tui.js";
 import { setVerbose, debug } from "./core/logger.js";
 import { readJsonl } from "./core/events.js";
 import type { UsageEvent, UsageProvider } from "./core/events.js";
 
-type BreakdownKey = "provider" | "project" | "model" | "source" | "billing";
-
-function isBreakdownKey(value: string): value is BreakdownKey {
-  return ["provider", "project", "model", "source", "billing"].includes(value);
+/** Series colors for `graph --by`, in legend order. */
+const GRAPH_COLORS = [
+  asciichart.cyan,
+  asciichart.magenta,
+  asciichart.yellow,
+  asciichart.green,
+  asciichart.blue,
+  asciichart.red,
+  asciichart.white,
+];
+
+/** Render a Vega-Lite spec to a PNG through canvas, optionally opening it (macOS). */
+async function writeChartImage(vlSpec: object, imagePath: string, open = false): Promise<void> {
+  const vegaSpec = vegaLite.compile(vlSpec as any).spec;
+  const view = new vega.View(vega.parse(vegaSpec), { renderer: "none" });
+  try {
+    const canvas = await view.toCanvas();
+    fs.writeFileSync(imagePath, canvas.toBuffer("image/png"));
+    console.log(`Chart saved to: ${imagePath}`);
+    if (open && process.platform === "darwin") {
+      const { execSync } = await import("node:child_process");
+      execSync(`open "${imagePath}"`);
+    }
+  } finally {
+    view.finalize();
+  }
 }
 
 const program = new Command();
@@ -39,17 +137,27 @@ program
   .option("--config <path>", "override config path")
   .option("--timezone <tz>", "override timezone for reporting")
   .option("-v, --verbose", "enable verbose output for debugging")
-  .hook("preAction", () => {
+  .hook("preAction", async () => {
     const opts = program.opts();
     if (opts.verbose) {
       setVerbose(true);
     }
+    const { config } = loadConfig(opts.config);
+    const backend: string = config.storage?.backend ?? "jsonl";
+    if (!isStorageBackendKind(backend)) {
+      console.error(`Unknown storage backend in config: ${backend} (expected ${STORAGE_BACKENDS.join(" or ")})`);
+      process.exit(1);
+    }
+    await useStorageBackend(backend);
   });
 
 program
   .command("refresh")
   .description("Collect latest usage and write normalized events")
-  .action(async () => {
+  .option("--only <names>", "run only these collectors (comma-separated)")
+  .option("--skip <names>", "skip these collectors (comma-separated)")
+  .option("--full", "re-read every source file instead of resuming where the last refresh stopped")
+  .action(async (cmd) => {
     const options = program.opts();
     const { config, path: configPath, exists } = loadConfig(options.config);
     debug("Config loaded from:", configPath, exists ? "(found)" : "(missing)");
@@ -58,97 +166,186 @@ program
     ensurePaths(paths);
     debug("Data paths:", paths);
 
-    const pricing = loadPricingTable();
-    debug("Loaded pricing for", Object.keys(pricing).length, "providers");
+    let collectors: Collector[];
+    try {
+      collectors = selectCollectors(await loadCollectors(config, configPath), cmd);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
 
-    const includeUnknown = config.ui?.includeUnknown ?? false;
+    const lock = acquireCollectionLock("refresh");
+    if (!lock.acquired) {
+      console.log(
+        `Skipped: thinktax ${lock.holder.command} (pid ${lock.holder.pid}) is already collecting.`
+      );
+      return;
+    }
 
-    debug("Starting collectors...");
-    const [claudeEvents, codexEvents, cursorEvents, openclawEvents, apprenticeEvents, gleanEvents, reviewCrewEvents] = await Promise.all([
-      collectClaude(config).then((events) => {
-        debug("Claude collector returned", events.length, "events");
-        return events;
-      }),
-      collectCodex(config).then((events) => {
-        debug("Codex collector returned", events.length, "events");
-        return events;
-      }),
-      collectCursor(config).then((events) => {
-        debug("Cursor collector returned", events.length, "events");
-        return events;
-      }),
-      collectOpenClaw(config).then((events) => {
-        debug("OpenClaw collector returned", events.length, "events");
-        return events;
-      }),
-      collectApprentice(config).then((events) => {
-        debug("Apprentice collector returned", events.length, "events");
-        return events;
-      }),
-      collectGlean(config).then((events) => {
-        debug("Glean collector returned", events.length, "events");
-        return events;
-      }),
-      collectReviewCrew(config).then((events) => {
-        debug("ReviewCrew collector returned", events.length, "events");
-        return events;
-      }),
-    ]);
-
-    const rawEvents = [...claudeEvents, ...codexEvents, ...cursorEvents, ...openclawEvents, ...apprenticeEvents, ...gleanEvents, ...reviewCrewEvents];
-    debug("Total raw events:", rawEvents.length);
-
-    const costed = rawEvents.map((event) =>
-      applyCosting(event, pricing, { includeUnknown })
-    );
-    debug("Applied costing to all events");
+    try {
+      const result = await runRefresh(config, collectors, {
+        timezone: options.timezone ?? resolveTimezone(config),
+        full: cmd.full,
+      });
+      if (result.failures.length > 0) {
+        console.error(formatRefreshSummary(result));
+        process.exitCode = 1;
+      } else {
+        console.log(formatRefreshSummary(result));
+      }
+    } finally {
+      lock.release();
+    }
+  });
 
-    const written = await writeEvents(costed);
-    debug("Wrote", written, "new events to storage");
+program
+  .command("watch")
+  .alias("daemon")
+  .description("Keep collecting as source files change")
+  .option("--only <names>", "run only these collectors (comma-separated)")
+  .option("--skip <names>", "skip these collectors (comma-separated)")
+  .option("--interval <minutes>", "poll interval for collectors without watchable directories", "5")
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config, path: configPath } = loadConfig(options.config);
+    ensurePaths(getPaths());
 
-    const sync = readSyncState();
-    sync.lastRun = {
-      ...(sync.lastRun ?? {}),
-      claude: new Date().toISOString(),
-      codex: new Date().toISOString(),
-      cursor: new Date().toISOString(),
-      openclaw: new Date().toISOString(),
-      apprentice: new Date().toISOString(),
-      glean: new Date().toISOString(),
-      reviewCrew: new Date().toISOString(),
-    };
-    sync.counts = {
-      ...(sync.counts ?? {}),
-      claude: claudeEvents.length,
-      codex: codexEvents.length,
-      cursor: cursorEvents.length,
-      openclaw: openclawEvents.length,
-      apprentice: apprenticeEvents.length,
-      glean: gleanEvents.length,
-      reviewCrew: reviewCrewEvents.length,
-    };
-    writeSyncState(sync);
+    const intervalMinutes = Number(cmd.interval);
+    if (!Number.isFinite(intervalMinutes) || intervalMinutes <= 0) {
+      console.error(`Invalid interval: ${cmd.interval}`);
+      process.exitCode = 1;
+      return;
+    }
 
-    console.log(
-      `Collected ${rawEvents.length} events (${written} new). Claude ${claudeEvents.length}, Codex ${codexEvents.length}, Cursor ${cursorEvents.length}, OpenClaw ${openclawEvents.length}, Apprentice ${apprenticeEvents.length}, Glean ${gleanEvents.length}, ReviewCrew ${reviewCrewEvents.length}.`
-    );
+    let collectors: Collector[];
+    try {
+      collectors = selectCollectors(await loadCollectors(config, configPath), cmd);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+
+    const lock = acquireCollectionLock("watch");
+    if (!lock.acquired) {
+      console.error(
+        `thinktax ${lock.holder.command} (pid ${lock.holder.pid}) is already collecting since ${lock.holder.startedAt}.`
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const watcher = watchCollectors(config, collectors, {
+      timezone: options.timezone ?? resolveTimezone(config),
+      intervalMinutes,
+      onRefresh: (result) => {
+        if (result.failures.length > 0) {
+          console.error(`[${new Date().toISOString()}] ${formatRefreshSummary(result)}`);
+          process.exitCode = 1;
+        } else if (result.written > 0) {
+          console.log(`[${new Date().toISOString()}] ${formatRefreshSummary(result)}`);
+        } else {
+          debug(formatRefreshSummary(result));
+        }
+      },
+    });
+    console.log(`Watching ${collectors.map((collector) => collector.name).join(", ")} (pid ${process.pid})`);
+
+    const shutdown = async () => {
+      await watcher.stop();
+      lock.release();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
   });
 
 program
-  .command("status")
-  .description("Show usage totals")
-  .option("--json", "output JSON")
-  .option("--breakdown <kind>", "provider|project|model|source")
-  .option("--today", "only show today")
-  .option("--mtd", "only show month-to-date")
-  .option("--ytd", "only show year-to-date")
-  .option("--all", "only show all-time")
+  .command("serve")
+  .description("Serve summaries and events as read-only JSON over HTTP")
+  .option("--port <port>", "port to listen on", "8787")
+  .option("--host <host>", "interface to bind", "127.0.0.1")
+  .option("--cors <origin>", "let this browser origin read responses (e.g. http://localhost:5173)")
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const port = Number(cmd.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.error(`Invalid port: ${cmd.port}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const server = createApiServer({
+      timezone: options.timezone ?? resolveTimezone(config),
+      corsOrigin: cmd.cors,
+      host: cmd.host,
+    });
+    server.on("error", (err) => {
+      console.error(`Could not start server: ${err.message}`);
+      process.exitCode = 1;
+    });
+    server.listen(port, cmd.host, () => {
+      const address = server.address();
+      const boundPort = typeof address === "object" && address ? address.port : port;
+      console.log(`Serving thinktax API on http://${cmd.host}:${boundPort}`);
+    });
+
+    const shutdown = () => server.close();
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  });
+
+withRangeOptions(
+  program
+    .command("status")
+    .description("Show usage totals")
+    .option("--json", "output JSON")
+    .option("--breakdown <kind>", "provider|project|model|source")
+    .option("--today", "only show today")
+    .option("--mtd", "only show month-to-date")
+    .option("--ytd", "only show year-to-date")
+    .option("--all", "only show all-time")
+)
   .action(async (cmd) => {
     const options = program.opts();
     const { config } = loadConfig(options.config);
     const timezone = options.timezone ?? resolveTimezone(config);
     const now = DateTime.now().setZone(timezone);
 
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+
+    const budgets = await evaluateBudgets(config, timezone, now);
+    const forecast = await loadForecast(timezone, now);
+    const breakdownKey =
+      typeof cmd.breakdown === "string" ? cmd.breakdown : null;
+
+    if (range) {
+      const summary = await loadRangeSummary(timezone, range.from, range.to);
+      if (cmd.json) {
+        console.log(JSON.stringify({ range: { label: range.label, ...summary }, budgets, forecast }, null, 2));
+        return;
+      }
+      console.log(formatTotalsLine(range.label, summary.totals));
+      if (breakdownKey && isBreakdownKey(breakdownKey)) {
+        formatBreakdown(summary.breakdowns[breakdownKey], 10).forEach((line) =>
+          console.log(`  ${line}`)
+        );
+      }
+      if (budgets.length > 0) {
+        console.log("Budgets:");
+        budgets.forEach((budget) => console.log(`  ${formatBudgetLine(budget)}`));
+      }
+      return;
+    }
+
     const summaries = await loadSummaries(timezone, now);
 
     if (cmd.json) {
@@ -157,6 +354,8 @@ program
         mtd: summaries.mtd,
         ytd: summaries.ytd,
         all: summaries.all,
+        budgets,
+        forecast,
       };
       console.log(JSON.stringify(payload, null, 2));
       return;
@@ -169,9 +368,6 @@ program
     const showYtd = explicit ? cmd.ytd : false;
     const showAll = explicit ? cmd.all : false;
 
-    const breakdownKey =
-      typeof cmd.breakdown === "string" ? cmd.breakdown : null;
-
     if (showToday) {
       console.log(formatTotalsLine("Today", summaries.today.totals));
       if (breakdownKey && isBreakdownKey(breakdownKey)) {
@@ -185,6 +381,7 @@ program
 
     if (showMtd) {
       console.log(formatTotalsLine("MTD", summaries.mtd.totals));
+      console.log(`  ${formatForecastLine("Projected month-end", forecast.month)}`);
       if (breakdownKey && isBreakdownKey(breakdownKey)) {
         const lines = formatBreakdown(
           summaries.mtd.breakdowns[breakdownKey] ?? {},
@@ -215,6 +412,38 @@ program
         lines.forEach((line) => console.log(`  ${line}`));
       }
     }
+
+    if (budgets.length > 0) {
+      console.log("Budgets:");
+      budgets.forEach((budget) => console.log(`  ${formatBudgetLine(budget)}`));
+    }
+  });
+
+program
+  .command("budget")
+  .description("Check spend against configured budgets")
+  .option("--json", "output JSON")
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    const budgets = await evaluateBudgets(config, timezone, now);
+
+    if (cmd.json) {
+      console.log(
+        JSON.stringify({ state: worstBudgetState(budgets), budgets }, null, 2)
+      );
+      return;
+    }
+
+    if (budgets.length === 0) {
+      console.log("No budgets configured. Add [[budgets]] entries to your config.");
+      return;
+    }
+
+    budgets.forEach((budget) => console.log(formatBudgetLine(budget)));
   });
 
 program
@@ -232,22 +461,28 @@ program
     const todayCursor = todayProvider.cursor?.final_usd ?? 0;
     const todayClaude = todayProvider.anthropic?.final_usd ?? 0;
     const todayCodex = todayProvider.openai?.final_usd ?? 0;
+    const todayGemini = todayProvider.google?.final_usd ?? 0;
 
     const mtdProvider = mtd.breakdowns.provider;
     const mtdCursor = mtdProvider.cursor?.final_usd ?? 0;
     const mtdClaude = mtdProvider.anthropic?.final_usd ?? 0;
     const mtdCodex = mtdProvider.openai?.final_usd ?? 0;
+    const mtdGemini = mtdProvider.google?.final_usd ?? 0;
 
     const todayTotalLabel = formatUsd(today.totals.final_usd);
     const mtdTotalLabel = formatUsd(mtd.totals.final_usd);
     const label = `today ${todayTotalLabel}`;
 
     const sync = readSyncState();
-    const lastRun = sync.lastRun?.cursor ?? sync.lastRun?.claude ?? null;
-    const stale = lastRun
-      ? DateTime.fromISO(lastRun).diffNow("hours").hours < -24
+    const lastRefresh = lastRefreshTime(sync);
+    const stale = lastRefresh
+      ? DateTime.fromISO(lastRefresh).diffNow("hours").hours < -24
       : true;
     const estimateOnly = today.totals.reported_usd === 0 && today.totals.estimated_usd > 0;
+    const budgets = await evaluateBudgets(config, timezone, now);
+    const budgetState = worstBudgetState(budgets);
+    const overBudget = budgetState === "exceeded";
+    const budgetWarning = budgetState === "warning";
 
     if (cmd.format === "json") {
       console.log(
@@ -256,12 +491,21 @@ program
             label,
             stale,
             estimateOnly,
+            overBudget,
+            budgetWarning,
+            budgets: budgets.map((budget) => ({
+              name: budget.name,
+              state: budget.state,
+              percent: budget.percent,
+              label: `${formatUsd(budget.spent_usd)}/${formatUsd(budget.limit_usd)}`,
+            })),
             today: {
               total: { usd: today.totals.final_usd, label: todayTotalLabel },
               providers: {
                 cursor: { usd: todayCursor, label: formatUsd(todayCursor) },
                 claude: { usd: todayClaude, label: formatUsd(todayClaude) },
                 codex: { usd: todayCodex, label: formatUsd(todayCodex) },
+                gemini: { usd: todayGemini, label: formatUsd(todayGemini) },
               },
             },
             mtd: {
@@ -270,6 +514,7 @@ program
                 cursor: { usd: mtdCursor, label: formatUsd(mtdCursor) },
                 claude: { usd: mtdClaude, label: formatUsd(mtdClaude) },
                 codex: { usd: mtdCodex, label: formatUsd(mtdCodex) },
+                gemini: { usd: mtdGemini, label: formatUsd(mtdGemini) },
               },
             },
           },
@@ -278,28 +523,82 @@ program
         )
       );
     } else {
-      const prefix = `${stale ? "!" : ""}${estimateOnly ? "~" : ""}`;
+      const prefix = `${stale ? "!" : ""}${overBudget ? "^" : ""}${estimateOnly ? "~" : ""}`;
       console.log(prefix + label);
     }
   });
 
 program
-  .command("popup")
-  .description("Output popup payload")
-  .option("--format <format>", "text|json", "text")
-  .option("--today", "only show today")
-  .option("--mtd", "only show month-to-date")
-  .option("--ytd", "only show year-to-date")
-  .option("--all", "only show all-time")
+  .command("tui")
+  .description("Full-screen dashboard with tabs, drill-down and live reload")
+  .action(async () => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      console.error("thinktax tui needs an interactive terminal; use status or graph instead.");
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      await runTui({
+        timezone,
+        weekStart: resolveWeekStart(config),
+        load: (from, to) => loadEventsForRange(timezone, from, to),
+        // Event files, the SQLite database and its WAL all live here.
+        watchPaths: [getPaths().dataDir],
+      });
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+    }
+  });
+
+withRangeOptions(
+  program
+    .command("popup")
+    .description("Output popup payload")
+    .option("--format <format>", "text|json", "text")
+    .option("--today", "only show today")
+    .option("--mtd", "only show month-to-date")
+    .option("--ytd", "only show year-to-date")
+    .option("--all", "only show all-time")
+)
   .action(async (cmd) => {
     const options = program.opts();
     const { config } = loadConfig(options.config);
     const timezone = options.timezone ?? resolveTimezone(config);
     const now = DateTime.now().setZone(timezone);
+
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (range) {
+      const summary = await loadRangeSummary(timezone, range.from, range.to);
+      if (cmd.format === "json") {
+        console.log(JSON.stringify({ range: { label: range.label, ...summary } }, null, 2));
+        return;
+      }
+      console.log(formatTotalsLine(range.label, summary.totals));
+      formatBreakdown(summary.breakdowns.provider).forEach((line) =>
+        console.log(`  ${line}`)
+      );
+      return;
+    }
+
     const summaries = await loadSummaries(timezone, now);
+    const forecast = await loadForecast(timezone, now);
 
     if (cmd.format === "json") {
-      console.log(JSON.stringify(summaries, null, 2));
+      console.log(JSON.stringify({ ...summaries, forecast }, null, 2));
       return;
     }
 
@@ -319,6 +618,7 @@ program
 
     if (showMtd) {
       console.log(formatTotalsLine("MTD", summaries.mtd.totals));
+      console.log(`  ${formatForecastLine("Projected", forecast.month)}`);
       formatBreakdown(summaries.mtd.breakdowns.provider).forEach((line) =>
         console.log(`  ${line}`)
       );
@@ -339,10 +639,57 @@ program
     }
   });
 
+program
+  .command("forecast")
+  .description("Project month-end and year-end spend")
+  .option("--json", "output JSON")
+  .option("--lookback <days>", "days of history to fit against (at least 7)", "56")
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    const lookbackDays = Number(cmd.lookback);
+    if (!Number.isInteger(lookbackDays) || lookbackDays < 7) {
+      console.error(`Invalid lookback: ${cmd.lookback} (expected a whole number of days, at least 7)`);
+      process.exitCode = 1;
+      return;
+    }
+    const forecast = await loadForecast(timezone, now, { lookbackDays });
+
+    if (cmd.json) {
+      console.log(JSON.stringify(forecast, null, 2));
+      return;
+    }
+
+    const { model, month, year } = forecast;
+    const confidence = `${Math.round(forecast.confidence * 100)}% range`;
+
+    console.log(`${formatForecastLine("Month-end", month)} [${confidence}]`);
+    console.log(
+      `  MTD ${formatUsd(month.actual_usd)}, ${month.remaining_days.toFixed(1)} days left, ~${formatUsd(month.remaining_usd)} to go`
+    );
+    console.log(`${formatForecastLine("Year-end", year)} [${confidence}]`);
+    console.log(
+      `  YTD ${formatUsd(year.actual_usd)}, ${year.remaining_days.toFixed(1)} days left, ~${formatUsd(year.remaining_usd)} to go`
+    );
+
+    if (model.history_days === 0) {
+      console.log("No completed days of history yet; projections equal actual spend.");
+      return;
+    }
+
+    const trendSign = model.trend_usd_per_day >= 0 ? "+" : "-";
+    console.log(
+      `Daily: 7-day avg ${formatUsd(model.trailing_7_usd)}, 28-day avg ${formatUsd(model.trailing_28_usd)}, trend ${trendSign}${formatUsd(Math.abs(model.trend_usd_per_day))}/day (${model.history_days} days fitted)`
+    );
+  });
+
 program
   .command("doctor")
   .description("Diagnostics for thinktax")
-  .action(() => {
+  .action(async () => {
     const options = program.opts();
     const { config, path: configPath, exists } = loadConfig(options.config);
     const paths = getPaths();
@@ -350,14 +697,25 @@ program
 
     console.log(`Config: ${configPath} (${exists ? "found" : "missing"})`);
     console.log(`Data dir: ${paths.dataDir}`);
-    console.log(`Events dir: ${paths.eventsDir}`);
+    const storage = getStorageBackend().kind;
+    console.log(`Storage: ${storage} (${storage === "sqlite" ? paths.eventsDb : paths.eventsDir})`);
     console.log(`Snapshots dir: ${paths.snapshotsDir}`);
     console.log(`State dir: ${paths.stateDir}`);
+    console.log(`Pricing: ${paths.pricingFile}`);
+    console.log(
+      `Pricing overrides: ${paths.userPricingFile} (${fs.existsSync(paths.userPricingFile) ? "found" : "missing"})`
+    );
 
-    if (sync.lastRun) {
-      Object.entries(sync.lastRun).forEach(([key, value]) => {
-        console.log(`Last ${key} refresh: ${value}`);
-      });
+    console.log("Collectors:");
+    for (const collector of await loadCollectors(config, configPath)) {
+      const health = collector.health(config);
+      const lastRun = sync.lastRun?.[collector.name];
+      const lastRunLabel = lastRun
+        ? `, last refresh ${lastRun} (${sync.counts?.[collector.name] ?? 0} events)`
+        : "";
+      console.log(
+        `  ${collector.name.padEnd(12)} ${health.status.padEnd(8)} ${health.detail}${lastRunLabel}`
+      );
     }
 
     if (config.cursor?.team) {
@@ -374,170 +732,476 @@ program
   .action(async (cmd) => {
     const options = program.opts();
     const { config } = loadConfig(options.config);
-    const pricing = loadPricingTable();
+    const pricing = loadPricingTable(config);
     const includeUnknown = config.ui?.includeUnknown ?? false;
 
-    console.log("Loading all stored events...");
-    const events = await loadAllStoredEvents();
-    console.log(`Found ${events.length} events to reprocess`);
-
-    if (events.length === 0) {
-      console.log("No events to reprocess.");
+    // Hold the lock from the first read to the last write, so a refresh
+    // can't store events that the rewrite below would then drop.
+    const lock = cmd.dryRun ? null : acquireCollectionLock("reprocess");
+    if (lock && !lock.acquired) {
+      console.error(
+        `thinktax ${lock.holder.command} (pid ${lock.holder.pid}) is writing events; stop it and run reprocess again.`
+      );
+      process.exitCode = 1;
       return;
     }
 
-    // Load billing registry for Claude Code sessions
-    const billingFile = resolveBillingSessionsFile();
-    const billingEntries = await readJsonl<{ session_id: string; billing: string }>(billingFile);
-    const billingRegistry = new Map<string, string>();
-    for (const entry of billingEntries) {
-      if (entry.session_id && entry.billing) {
-        billingRegistry.set(entry.session_id, entry.billing);
+    try {
+      console.log("Loading all stored events...");
+      const stored = await loadAllStoredEvents();
+      console.log(`Found ${stored.length} events to reprocess`);
+
+      if (stored.length === 0) {
+        console.log("No events to reprocess.");
+        return;
       }
-    }
-    const defaultBilling = config.claude?.billing?.defaultMode ?? "estimate";
-    console.log(`Billing registry: ${billingRegistry.size} tagged sessions, default: ${defaultBilling}`);
 
-    // Build Cursor workspace activity map for project attribution
-    console.log("Building Cursor workspace activity map...");
-    const cursorActivityMap = buildWorkspaceActivityMap();
-    console.log(`Found ${cursorActivityMap.workspaces.size} Cursor workspaces`);
+      // Collapse Claude Code events repeated per content block or session fork
+      const collapsed = await collapseClaudeEvents(stored);
+      const events = collapsed.events;
+      const duplicateUsd = collapsed.duplicates.reduce(
+        (sum, event) => sum + (event.cost.final_usd ?? 0),
+        0
+      );
 
-    let costingUpdated = 0;
-    let billingTagged = 0;
-    let projectsAttributed = 0;
-    const reprocessed: UsageEvent[] = [];
+      // Re-resolve Claude Code projects from the cwd recorded in transcripts
+      const claudeAttributed = await attributeClaudeEvents(config, events);
 
-    for (const event of events) {
-      let updated = false;
-
-      // Apply billing tag to Claude Code events
-      if (event.source === "claude_code") {
-        const filePath = (event.meta?.file as string) ?? "";
-        const sessionId = path.basename(filePath, ".jsonl");
-        const billing = billingRegistry.get(sessionId) ?? defaultBilling;
-        if (event.meta?.billing !== billing) {
-          event.meta = { ...event.meta, billing };
-          billingTagged++;
-          updated = true;
+      // Load billing registry for Claude Code sessions
+      const billingFile = resolveBillingSessionsFile();
+      const billingEntries = await readJsonl<{ session_id: string; billing: string }>(billingFile);
+      const billingRegistry = new Map<string, string>();
+      for (const entry of billingEntries) {
+        if (entry.session_id && entry.billing) {
+          billingRegistry.set(entry.session_id, entry.billing);
         }
       }
+      const defaultBilling = config.claude?.billing?.defaultMode ?? "estimate";
+      console.log(`Billing registry: ${billingRegistry.size} tagged sessions, default: ${defaultBilling}`);
+
+      // Build Cursor workspace activity map for project attribution
+      console.log("Building Cursor workspace activity map...");
+      const cursorActivityMap = buildWorkspaceActivityMap();
+      console.log(`Found ${cursorActivityMap.workspaces.size} Cursor workspaces`);
+
+      let costingUpdated = 0;
+      let billingTagged = 0;
+      let projectsAttributed = 0;
+      const modelDeltas = new Map<string, { events: number; before: number; after: number }>();
+      const reprocessed: UsageEvent[] = [];
+
+      for (const event of events) {
+        let updated = false;
+
+        // Apply billing tag to Claude Code events
+        if (event.source === "claude_code") {
+          const filePath = (event.meta?.file as string) ?? "";
+          const sessionId = path.basename(filePath, ".jsonl");
+          const billing = billingRegistry.get(sessionId) ?? defaultBilling;
+          if (event.meta?.billing !== billing) {
+            event.meta = { ...event.meta, billing };
+            billingTagged++;
+            updated = true;
+          }
+        }
+
+        // Apply billing tag to OpenClaw events
+        if (event.source === "openclaw") {
+          const openclawBilling = config.openclaw?.billing?.defaultMode ?? "estimate";
+          if (event.meta?.billing !== openclawBilling) {
+            event.meta = { ...event.meta, billing: openclawBilling };
+            billingTagged++;
+            updated = true;
+          }
+        }
 
-      // Apply billing tag to OpenClaw events
-      if (event.source === "openclaw") {
-        const openclawBilling = config.openclaw?.billing?.defaultMode ?? "estimate";
-        if (event.meta?.billing !== openclawBilling) {
-          event.meta = { ...event.meta, billing: openclawBilling };
-          billingTagged++;
+        // Re-apply costing
+        const oldFinalUsd = event.cost.final_usd;
+        const recosted = applyCosting(event, pricing, { includeUnknown });
+
+        if (recosted.cost.final_usd !== oldFinalUsd) {
+          costingUpdated++;
           updated = true;
+          const modelKey = `${event.provider}/${event.model ?? "unknown"}`;
+          const delta = modelDeltas.get(modelKey) ?? { events: 0, before: 0, after: 0 };
+          delta.events++;
+          delta.before += oldFinalUsd ?? 0;
+          delta.after += recosted.cost.final_usd ?? 0;
+          modelDeltas.set(modelKey, delta);
         }
-      }
 
-      // Re-apply costing
-      const oldFinalUsd = event.cost.final_usd;
-      const recosted = applyCosting(event, pricing, { includeUnknown });
+        // Re-apply Cursor project attribution
+        if (event.source === "cursor_ide" && !event.project.id) {
+          const eventTimestampMs = DateTime.fromISO(event.ts).toMillis();
+          const project = findProjectForTimestamp(cursorActivityMap, eventTimestampMs);
+          if (project.id) {
+            recosted.project = project;
+            projectsAttributed++;
+            updated = true;
+          }
+        }
 
-      if (recosted.cost.final_usd !== oldFinalUsd) {
-        costingUpdated++;
-        updated = true;
+        reprocessed.push(recosted);
       }
 
-      // Re-apply Cursor project attribution
-      if (event.source === "cursor_ide" && !event.project.id) {
-        const eventTimestampMs = DateTime.fromISO(event.ts).toMillis();
-        const project = findProjectForTimestamp(cursorActivityMap, eventTimestampMs);
-        if (project.id) {
-          recosted.project = project;
-          projectsAttributed++;
-          updated = true;
+      console.log(`\nChanges:`);
+      console.log(`  Billing tagged: ${billingTagged} events`);
+      console.log(`  Costing updated: ${costingUpdated} events`);
+      console.log(`  Projects attributed: ${projectsAttributed} Cursor events`);
+      console.log(`  Projects re-resolved: ${claudeAttributed} Claude Code events`);
+      console.log(`  Claude events rekeyed by message: ${collapsed.rekeyed}`);
+      console.log(
+        `  Duplicate Claude events removed: ${collapsed.duplicates.length} (${formatUsd(duplicateUsd)})`
+      );
+      if (collapsed.unmatched > 0) {
+        console.log(
+          `  Claude events without a matching transcript line: ${collapsed.unmatched} (left as-is)`
+        );
+      }
+
+      if (modelDeltas.size > 0) {
+        console.log(`\nCost changes by model:`);
+        const sorted = Array.from(modelDeltas.entries()).sort(
+          (a, b) => Math.abs(b[1].after - b[1].before) - Math.abs(a[1].after - a[1].before)
+        );
+        for (const [modelKey, delta] of sorted) {
+          console.log(
+            `  ${modelKey}: ${formatUsd(delta.before)} -> ${formatUsd(delta.after)} (${formatUsdDelta(delta.after - delta.before)}, ${delta.events} events)`
+          );
         }
       }
 
-      reprocessed.push(recosted);
+      if (cmd.dryRun) {
+        console.log("\n(Dry run - no changes written)");
+        return;
+      }
+
+      if (
+        costingUpdated === 0 &&
+        projectsAttributed === 0 &&
+        claudeAttributed === 0 &&
+        billingTagged === 0 &&
+        collapsed.rekeyed === 0 &&
+        collapsed.duplicates.length === 0
+      ) {
+        console.log("\nNo changes needed.");
+        return;
+      }
+
+      console.log("\nWriting updated events...");
+      const written = await replaceAllEvents(reprocessed);
+      console.log(`Wrote ${written} events to storage.`);
+
+      const timezone = options.timezone ?? resolveTimezone(config);
+      const snapshots = await refreshSnapshots(timezone);
+      console.log(`Rebuilt ${snapshots} daily snapshots.`);
+    } finally {
+      lock?.release();
+    }
+  });
+
+program
+  .command("migrate")
+  .description("Convert stored events between storage backends")
+  .requiredOption("--to <backend>", "jsonl|sqlite")
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config, path: configPath } = loadConfig(options.config);
+    const target = String(cmd.to);
+    if (!isStorageBackendKind(target)) {
+      console.error(`Unknown storage backend: ${target} (expected jsonl or sqlite)`);
+      process.exitCode = 1;
+      return;
+    }
+    const sourceKind = target === "sqlite" ? "jsonl" : "sqlite";
+
+    const lock = acquireCollectionLock("migrate");
+    if (!lock.acquired) {
+      console.error(
+        `thinktax ${lock.holder.command} (pid ${lock.holder.pid}) is writing events; stop it and run migrate again.`
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      let events: UsageEvent[] = [];
+      if (storageBackendExists(sourceKind)) {
+        const source = await openStorageBackend(sourceKind);
+        events = await source.loadAll();
+        source.close();
+      }
+      console.log(`Found ${events.length} events in ${sourceKind} storage`);
+
+      if (events.length === 0) {
+        console.log("Nothing to migrate.");
+        return;
+      }
+
+      await useStorageBackend(target);
+      const written = await overwriteEvents(events);
+      console.log(`Wrote ${written} events to ${target} storage.`);
+
+      // Snapshots are keyed to the fingerprints of the backend they were built from.
+      const snapshots = await refreshSnapshots(options.timezone ?? resolveTimezone(config));
+      console.log(`Rebuilt ${snapshots} daily snapshots.`);
+    } finally {
+      lock.release();
+    }
+
+    const current = config.storage?.backend ?? "jsonl";
+    if (current !== target) {
+      console.log(`\nSet backend = "${target}" under [storage] in ${configPath} to start using it.`);
+    }
+  });
+
+const pricingCommand = program
+  .command("pricing")
+  .description("Inspect the pricing table and how stored models resolve");
+
+pricingCommand
+  .command("list")
+  .description("List priced models, including user overrides")
+  .option("--provider <provider>", "only list this provider")
+  .option("--json", "output JSON")
+  .action((cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const pricing = loadPricingTable(config);
+    const models = cmd.provider
+      ? pricing.models.filter((entry) => entry.provider === cmd.provider)
+      : pricing.models;
+
+    if (cmd.json) {
+      console.log(JSON.stringify({ ...pricing, models }, null, 2));
+      return;
+    }
+
+    for (const entry of models) {
+      console.log(formatPricingEntry(entry));
+    }
+    const aliases = Object.entries(pricing.aliases ?? {});
+    if (aliases.length > 0) {
+      console.log("\nAliases:");
+      for (const [from, to] of aliases) {
+        console.log(`  ${from} -> ${to}`);
+      }
     }
+  });
 
-    console.log(`\nChanges:`);
-    console.log(`  Billing tagged: ${billingTagged} events`);
-    console.log(`  Costing updated: ${costingUpdated} events`);
-    console.log(`  Projects attributed: ${projectsAttributed} Cursor events`);
+pricingCommand
+  .command("show <model>")
+  .description("Show the entry a model resolves to and its tiers and periods")
+  .option("--provider <provider>", "provider the model is reported under (default: any)")
+  .option("--at <date>", "show rates in effect at this date (default: now)")
+  .option("--json", "output JSON")
+  .action((model: string, cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const pricing = loadPricingTable(config);
+    const at = cmd.at ? DateTime.fromISO(cmd.at) : DateTime.now();
+    if (!at.isValid) {
+      console.error(`Invalid date: ${cmd.at}`);
+      process.exitCode = 1;
+      return;
+    }
 
-    if (cmd.dryRun) {
-      console.log("\n(Dry run - no changes written)");
+    const provider = (cmd.provider as UsageProvider | undefined) ?? null;
+    const resolved = resolvePricing(pricing, provider, model, at.toISO());
+    if (!resolved) {
+      console.error(`No pricing for ${provider ? `${provider}/` : ""}${model}`);
+      process.exitCode = 1;
       return;
     }
 
-    if (costingUpdated === 0 && projectsAttributed === 0 && billingTagged === 0) {
-      console.log("\nNo changes needed.");
+    if (cmd.json) {
+      console.log(JSON.stringify(resolved, null, 2));
       return;
     }
 
-    console.log("\nWriting updated events...");
-    const written = await overwriteEvents(reprocessed);
-    console.log(`Wrote ${written} events to storage.`);
+    const { entry } = resolved;
+    console.log(formatPricingEntry(entry));
+    console.log(`  Matched ${model} under ${entry.provider} by ${resolved.match}${isGuessedMatch(resolved.match) ? " (guessed)" : ""}`);
+    if (resolved.alias) console.log(`  Alias: ${model} -> ${resolved.alias}`);
+    console.log(`  Rates at ${at.toISODate()}: ${formatPricingRates(resolved.pricing)}`);
+    for (const tier of entry.tiers ?? []) {
+      const conditions: string[] = [];
+      if (tier.prompt_tokens_above !== undefined) {
+        conditions.push(`prompt > ${tier.prompt_tokens_above} tokens`);
+      }
+      if (tier.service_tier !== undefined) {
+        conditions.push(`service tier ${[tier.service_tier].flat().join("|")}`);
+      }
+      let line = `  Tier ${tier.name ?? "(unnamed)"} when ${conditions.join(" and ") || "always"}`;
+      if (tier.multiplier !== undefined) line += `: x${tier.multiplier}`;
+      console.log(line);
+    }
+    for (const period of entry.periods ?? []) {
+      console.log(
+        `  Period ${period.effective_from ?? "…"} to ${period.effective_to ?? "…"}: ${formatPricingRates({ ...entry, ...period })}`
+      );
+    }
+    if (entry.notes) console.log(`  Notes: ${entry.notes}`);
   });
 
-program
-  .command("graph")
-  .description("Show cost over time as ASCII chart")
-  .option("--days <n>", "number of days to show", "30")
-  .option("--provider <provider>", "filter by provider (cursor|anthropic|openai)")
-  .option("--height <n>", "chart height in lines", "12")
-  .option("--sparkline", "compact sparkline output")
-  .option("--image [path]", "generate PNG image (default: /tmp/thinktax-graph.png)")
-  .option("--open", "open generated image (macOS)")
+pricingCommand
+  .command("check")
+  .description("Show which entry each stored model resolves to and list unpriced models")
+  .option("--json", "output JSON")
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const pricing = loadPricingTable(config);
+    const events = await loadAllStoredEvents();
+
+    const models = new Map<string, { provider: UsageProvider; model: string; events: number }>();
+    for (const event of events) {
+      if (!event.model || event.cost.reported_usd !== null) continue;
+      const key = `${event.provider}/${event.model}`;
+      const current = models.get(key) ?? { provider: event.provider, model: event.model, events: 0 };
+      current.events++;
+      models.set(key, current);
+    }
+
+    const rows = Array.from(models.values())
+      .sort((a, b) => b.events - a.events)
+      .map((row) => {
+        const resolved = resolvePricing(pricing, row.provider, row.model);
+        return {
+          ...row,
+          entry: resolved ? `${resolved.entry.provider}/${resolved.entry.model}` : null,
+          alias: resolved?.alias ?? null,
+          match: resolved?.match ?? null,
+          origin: resolved?.entry.origin ?? null,
+        };
+      });
+    const unpriced = rows.filter((row) => !row.entry);
+
+    if (cmd.json) {
+      console.log(JSON.stringify({ models: rows, unpriced }, null, 2));
+    } else {
+      for (const row of rows.filter((r) => r.entry)) {
+        let line = `${row.provider}/${row.model} -> ${row.entry} (${row.match}`;
+        line += isGuessedMatch(row.match) ? ", guessed)" : ")";
+        if (row.origin && row.origin !== "bundled") line += ` (${row.origin})`;
+        console.log(`${line} [${row.events} events]`);
+      }
+      if (unpriced.length > 0) {
+        console.log(`\nUnpriced models (${unpriced.length}):`);
+        for (const row of unpriced) {
+          console.log(`  ${row.provider}/${row.model} [${row.events} events]`);
+        }
+        console.log("Add them to pricing.json in your config dir or alias them under [pricing.aliases].");
+      } else {
+        console.log("\nAll stored models are priced.");
+      }
+    }
+
+    if (unpriced.length > 0) process.exitCode = 1;
+  });
+
+withRangeOptions(
+  program
+    .command("graph")
+    .description("Show cost over time as ASCII chart")
+    .option("--days <n>", "number of days to show (without a range flag)", "30")
+    .option("--provider <provider>", "filter by provider (cursor|anthropic|openai|google)")
+    .option("--by <kind>", "one series per provider|project|model|source|billing")
+    .option("--group <period>", `bucket by ${EXPORT_PERIODS.join("|")}`, "day")
+    .option("--cumulative", "plot running totals")
+    .option("--height <n>", "chart height in lines", "12")
+    .option("--sparkline", "compact sparkline output")
+    .option("--image [path]", "generate PNG image (default: /tmp/thinktax-graph.png)")
+    .option("--open", "open generated image (macOS)")
+)
   .action(async (cmd) => {
     const options = program.opts();
     const { config } = loadConfig(options.config);
     const timezone = options.timezone ?? resolveTimezone(config);
     const now = DateTime.now().setZone(timezone);
 
-    const days = Math.max(1, Math.min(365, parseInt(cmd.days, 10) || 30));
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+      if (cmd.by !== undefined && !isBreakdownKey(cmd.by)) {
+        throw new Error(`Unknown breakdown: ${cmd.by} (expected ${BREAKDOWN_KEYS.join(", ")})`);
+      }
+      if (!isExportPeriod(cmd.group)) {
+        throw new Error(`Unknown period: ${cmd.group} (expected ${EXPORT_PERIODS.join(", ")})`);
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+
     const height = Math.max(5, Math.min(30, parseInt(cmd.height, 10) || 12));
     const providerFilter = cmd.provider as UsageProvider | undefined;
-
-    const startDate = now.minus({ days: days - 1 }).startOf("day");
-    const events = await loadEventsForRange(timezone, startDate, now);
+    const by = cmd.by as BreakdownKey | undefined;
+    const period = cmd.group as ExportPeriod;
+
+    if (!range) {
+      const days = Math.max(1, Math.min(365, parseInt(cmd.days, 10) || 30));
+      range = {
+        label: `last ${days} days`,
+        from: now.minus({ days: days - 1 }).startOf("day"),
+        to: now,
+      };
+    }
+    const startDate = range.from;
+    const endDate = range.to;
+    const events = await loadEventsForRange(timezone, startDate, endDate);
 
     // Filter by provider if specified
     const filtered = providerFilter
       ? events.filter((e) => e.provider === providerFilter)
       : events;
 
-    // Aggregate costs by day
-    const dailyCosts: Map<string, number> = new Map();
-    for (let d = 0; d < days; d++) {
-      const day = startDate.plus({ days: d }).toISODate();
-      if (day) dailyCosts.set(day, 0);
-    }
-
-    for (const event of filtered) {
-      const eventDay = DateTime.fromISO(event.ts).setZone(timezone).toISODate();
-      if (eventDay && dailyCosts.has(eventDay)) {
-        dailyCosts.set(eventDay, (dailyCosts.get(eventDay) ?? 0) + (event.cost.final_usd ?? 0));
-      }
-    }
-
-    // Convert to array for chart
-    const sortedDays = Array.from(dailyCosts.keys()).sort();
-    const values = sortedDays.map((day) => dailyCosts.get(day) ?? 0);
+    // Aggregate costs per period, one series per breakdown key with --by
+    const { periods, series } = buildPeriodSeries(filtered, timezone, startDate, endDate, {
+      period,
+      weekStart: resolveWeekStart(config),
+      by,
+      max: GRAPH_COLORS.length,
+      cumulative: Boolean(cmd.cumulative),
+    });
 
-    if (values.every((v) => v === 0)) {
-      console.log(`No cost data for the last ${days} days.`);
+    const total = series.reduce((sum, entry) => sum + entry.total, 0);
+    if (total === 0) {
+      console.log(`No cost data for ${range.label}.`);
       return;
     }
 
-    const total = values.reduce((a, b) => a + b, 0);
-    const avg = total / days;
-    const max = Math.max(...values);
-
-    const title = providerFilter
-      ? `${providerFilter} cost - last ${days} days`
-      : `Total cost - last ${days} days`;
-
-    // Sparkline mode - compact single line
+    // Per-period spend for the summary line, whether or not it is plotted cumulatively
+    const combined = periods.map((_, i) => series.reduce((sum, entry) => sum + entry.values[i], 0));
+    const perPeriod = cmd.cumulative ? combined.map((value, i) => value - (combined[i - 1] ?? 0)) : combined;
+    const avg = total / periods.length;
+    const max = Math.max(...perPeriod);
+    const summaryLine = `Total: ${formatUsd(total)}  |  Avg: ${formatUsd(avg)}/${period}  |  Max: ${formatUsd(max)}`;
+
+    const subject = providerFilter ? `${providerFilter} cost` : "Total cost";
+    const title = [
+      cmd.cumulative ? `Cumulative ${subject.toLowerCase()}` : subject,
+      by ? ` by ${by}` : "",
+      period !== "day" ? ` per ${period}` : "",
+      ` - ${range.label}`,
+    ].join("");
+
+    // Sparkline mode - compact, one line per series
     if (cmd.sparkline) {
-      const spark = sparkly(values, { min: 0 });
-      console.log(`${title}: ${spark} ${formatUsd(total)} total`);
+      if (!by) {
+        const spark = sparkly(series[0].values, { min: 0 });
+        console.log(`${title}: ${spark} ${formatUsd(total)} total`);
+        return;
+      }
+      // A shared scale keeps the sparklines comparable
+      const top = Math.max(...series.flatMap((entry) => entry.values));
+      const width = Math.max(...series.map((entry) => entry.key.length));
+      console.log(`${title}:`);
+      series.forEach((entry, i) => {
+        const spark = sparkly(entry.values, { min: 0, max: top });
+        console.log(`  ${GRAPH_COLORS[i]}${entry.key.padEnd(width)} ${spark}${asciichart.reset} ${formatUsd(entry.total)}`);
+      });
       return;
     }
 
@@ -546,11 +1210,11 @@ program
       const imagePath = typeof cmd.image === "string" ? cmd.image : "/tmp/thinktax-graph.png";
 
       // Build data for Vega-Lite
-      const chartData = sortedDays.map((day, i) => ({
-        date: day,
-        cost: values[i],
-      }));
+      const chartData = series.flatMap((entry) =>
+        periods.map((date, i) => ({ date, key: entry.key, cost: entry.values[i] }))
+      );
 
+      const axisFormat = period === "month" ? "%b %Y" : "%b %d";
       const vlSpec = {
         $schema: "https://vega.github.io/schema/vega-lite/v5.json",
         width: 800,
@@ -563,18 +1227,20 @@ program
           fontSize: 18,
         },
         data: { values: chartData },
-        mark: {
-          type: "area",
-          line: { color: "#06b6d4" },
-          color: {
-            x1: 1, y1: 1, x2: 1, y2: 0,
-            gradient: "linear",
-            stops: [
-              { offset: 0, color: "rgba(6, 182, 212, 0)" },
-              { offset: 1, color: "rgba(6, 182, 212, 0.4)" },
-            ],
-          },
-        },
+        mark: by
+          ? { type: "area", line: true, opacity: 0.8 }
+          : {
+              type: "area",
+              line: { color: "#06b6d4" },
+              color: {
+                x1: 1, y1: 1, x2: 1, y2: 0,
+                gradient: "linear",
+                stops: [
+                  { offset: 0, color: "rgba(6, 182, 212, 0)" },
+                  { offset: 1, color: "rgba(6, 182, 212, 0.4)" },
+                ],
+              },
+            },
         encoding: {
           x: {
             field: "date",
@@ -583,12 +1249,13 @@ program
               title: null,
               labelColor: "#888888",
               gridColor: "#333333",
-              format: "%b %d",
+              format: axisFormat,
             },
           },
           y: {
             field: "cost",
             type: "quantitative",
+            stack: by ? "zero" : null,
             axis: {
               title: "Cost (USD)",
               titleColor: "#888888",
@@ -597,23 +1264,25 @@ program
               format: "$,.2f",
             },
           },
+          ...(by
+            ? {
+                color: {
+                  field: "key",
+                  type: "nominal",
+                  title: by,
+                  sort: series.map((entry) => entry.key),
+                  scale: { scheme: "tableau10" },
+                  legend: { labelColor: "#cccccc", titleColor: "#888888" },
+                },
+                order: { field: "key", sort: "descending" },
+              }
+            : {}),
         },
       };
 
       try {
-        const vegaSpec = vegaLite.compile(vlSpec as any).spec;
-        const view = new vega.View(vega.parse(vegaSpec), { renderer: "none" });
-        const canvas = await view.toCanvas();
-        const buffer = canvas.toBuffer("image/png");
-        fs.writeFileSync(imagePath, buffer);
-        console.log(`Chart saved to: ${imagePath}`);
-        console.log(`Total: ${formatUsd(total)}  |  Avg: ${formatUsd(avg)}/day  |  Max: ${formatUsd(max)}`);
-
-        if (cmd.open && process.platform === "darwin") {
-          const { execSync } = await import("node:child_process");
-          execSync(`open "${imagePath}"`);
-        }
-        view.finalize();
+        await writeChartImage(vlSpec, imagePath, cmd.open);
+        console.log(summaryLine);
       } catch (err) {
         console.error("Failed to generate image:", err);
       }
@@ -624,19 +1293,546 @@ program
     console.log(`\n${title}`);
     console.log("─".repeat(50));
 
-    const chart = asciichart.plot(values, {
+    renderAsciiChart(
+      periods,
+      series.map((entry) => entry.values),
       height,
-      format: (x: number) => formatUsd(x).padStart(8),
-    });
-    console.log(chart);
+      by ? GRAPH_COLORS.slice(0, series.length) : undefined
+    ).forEach((line) => console.log(line));
 
-    // X-axis labels
-    const labelLine = "  " + sortedDays[0].slice(5) + " ".repeat(Math.max(0, values.length - 12)) + sortedDays[sortedDays.length - 1].slice(5);
-    console.log(labelLine);
+    if (by) {
+      // Legend: one colored swatch per series, largest first
+      console.log(
+        series
+          .map((entry, i) => `${GRAPH_COLORS[i]}■${asciichart.reset} ${entry.key} ${formatUsd(entry.total)}`)
+          .join("  ")
+      );
+    }
 
     // Summary
     console.log("─".repeat(50));
-    console.log(`Total: ${formatUsd(total)}  |  Avg: ${formatUsd(avg)}/day  |  Max: ${formatUsd(max)}`);
+    console.log(summaryLine);
+  });
+
+withRangeOptions(
+  program
+    .command("heatmap")
+    .description("Show spend by local hour and weekday (default: last 28 days)")
+    .option("--metric <metric>", `what to sum: ${HEATMAP_METRICS.join("|")}`, "cost")
+    .option("--provider <provider>", "only this provider")
+    .option("--project <project>", "only this project")
+    .option("--work-hours <hours>", "weekday working hours, end exclusive", "9-18")
+    .option("--image [path]", "generate PNG image (default: /tmp/thinktax-heatmap.png)")
+    .option("--open", "open generated image (macOS)")
+    .option("--json", "output JSON")
+)
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+    const weekStart = resolveWeekStart(config);
+
+    let range: ReportRange | null;
+    let workHours: [number, number];
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart });
+      if (!isHeatmapMetric(cmd.metric)) {
+        throw new Error(`Unknown metric: ${cmd.metric} (expected ${HEATMAP_METRICS.join(", ")})`);
+      }
+      workHours = parseWorkHours(cmd.workHours);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+    const { label, from, to } = range ?? {
+      label: "last 28 days",
+      from: now.minus({ days: 27 }).startOf("day"),
+      to: now,
+    };
+
+    const events = await queryEvents({ from, to, provider: cmd.provider, project: cmd.project });
+    const heatmap = buildHeatmap(events, timezone, from, to, { metric: cmd.metric, weekStart, workHours });
+
+    if (cmd.json) {
+      console.log(JSON.stringify({ from: from.toISO(), to: to.toISO(), timezone, workHours, ...heatmap }, null, 2));
+      return;
+    }
+    if (heatmap.total === 0) {
+      console.log(`No usage for ${label}.`);
+      return;
+    }
+
+    const format = (value: number) => (heatmap.metric === "cost" ? formatUsd(value) : formatTokens(value));
+    const title = `${heatmap.metric === "cost" ? "Cost" : "Tokens"} by hour (${timezone}) - ${label}`;
+    const workLine = [
+      `Weekdays ${workHours[0]}:00-${workHours[1]}:00: ${Math.round(heatmap.workShare * 100)}%`,
+      `Outside working hours: ${Math.round((1 - heatmap.workShare) * 100)}%`,
+      `Total: ${format(heatmap.total)}`,
+    ].join("  |  ");
+
+    if (cmd.image !== undefined) {
+      const imagePath = typeof cmd.image === "string" ? cmd.image : "/tmp/thinktax-heatmap.png";
+      const dayNames = Info.weekdays("short");
+      const rows = heatmap.weekdays.map((weekday) => dayNames[weekday - 1]);
+      const vlSpec = {
+        $schema: "https://vega.github.io/schema/vega-lite/v5.json",
+        width: 800,
+        height: 280,
+        padding: 20,
+        background: "#1a1a1a",
+        title: { text: title, color: "#ffffff", fontSize: 18 },
+        data: {
+          values: heatmap.cells.flatMap((cells, row) =>
+            cells.map((value, hour) => ({ day: rows[row], hour: String(hour).padStart(2, "0"), value }))
+          ),
+        },
+        mark: { type: "rect", cornerRadius: 2 },
+        encoding: {
+          x: { field: "hour", type: "ordinal", axis: { title: null, labelColor: "#888888", labelAngle: 0 } },
+          y: { field: "day", type: "ordinal", sort: rows, axis: { title: null, labelColor: "#888888" } },
+          color: {
+            field: "value",
+            type: "quantitative",
+            title: heatmap.metric === "cost" ? "USD" : "tokens",
+            scale: { scheme: "inferno" },
+            legend: { labelColor: "#cccccc", titleColor: "#888888", format: heatmap.metric === "cost" ? "$,.2f" : "~s" },
+          },
+        },
+        config: { view: { stroke: null } },
+      };
+      try {
+        await writeChartImage(vlSpec, imagePath, cmd.open);
+        console.log(workLine);
+      } catch (err) {
+        console.error("Failed to generate image:", err);
+      }
+      return;
+    }
+
+    console.log(`\n${title}`);
+    renderHeatmapGrid(heatmap).forEach((line) => console.log(line));
+    console.log(workLine);
+  });
+
+const sessionsCommand = program
+  .command("sessions")
+  .description("Group spend by conversation or agent run");
+
+withRangeOptions(
+  sessionsCommand
+    .command("list", { isDefault: true })
+    .description("List sessions, most expensive first (default: month to date)")
+    .option("--provider <provider>", "only sessions from this provider")
+    .option("--project <project>", "only sessions in this project")
+    .option("--sort <key>", `order by ${SESSION_SORTS.join("|")}`, "cost")
+    .option("--limit <n>", "number of sessions to show", "20")
+    .option("--json", "output JSON")
+)
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+      if (!isSessionSort(cmd.sort)) {
+        throw new Error(`Unknown sort: ${cmd.sort} (expected ${SESSION_SORTS.join(", ")})`);
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+    const { from, to } = range ?? { from: now.startOf("month"), to: now };
+
+    const events = await queryEvents({ from, to, provider: cmd.provider });
+    let sessions = summarizeSessions(events, cmd.sort);
+    if (cmd.project) sessions = sessions.filter((session) => session.project === cmd.project);
+    const limit = Math.max(1, parseInt(cmd.limit, 10) || 20);
+
+    if (cmd.json) {
+      console.log(JSON.stringify(sessions.slice(0, limit), null, 2));
+      return;
+    }
+
+    if (sessions.length === 0) {
+      console.log(`No sessions between ${from.toISODate()} and ${to.toISODate()}.`);
+      return;
+    }
+    sessions.slice(0, limit).forEach((session) => console.log(formatSessionLine(session, timezone)));
+    if (sessions.length > limit) console.log(`... ${sessions.length - limit} more (--limit)`);
+  });
+
+sessionsCommand
+  .command("show <id>")
+  .description("Show one session turn by turn (an id prefix is enough)")
+  .option("--json", "output JSON")
+  .action(async (id: string, cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    const { events } = await loadAllEvents(timezone, now);
+    const matches = findSessions(summarizeSessions(events), id);
+    if (matches.length !== 1) {
+      console.error(
+        matches.length === 0
+          ? `No session matches ${id}`
+          : `${id} matches ${matches.length} sessions: ${matches.map((session) => session.id).join(", ")}`
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const [session] = matches;
+    const turns = sessionEvents(events, session);
+    if (cmd.json) {
+      console.log(JSON.stringify({ ...session, events: turns }, null, 2));
+      return;
+    }
+
+    const local = (ts: string) => DateTime.fromISO(ts).setZone(timezone);
+    console.log(`Session ${session.id} (${session.source})`);
+    console.log(`  Project: ${session.project}`);
+    console.log(
+      `  ${local(session.start).toFormat("yyyy-MM-dd HH:mm:ss")} to ${local(session.end).toFormat("HH:mm:ss")} (${formatDuration(session.duration_ms)})`
+    );
+    if (session.file) console.log(`  File: ${session.file}`);
+    console.log(`  ${formatTotalsLine(`${session.turns} turns`, session.totals)}`);
+    console.log("  Models:");
+    session.models.forEach((entry) =>
+      console.log(`    ${entry.model}: ${formatUsd(entry.final_usd)} (${entry.turns} turns)`)
+    );
+    console.log("  Turns:");
+    for (const event of turns) {
+      const prompt = event.tokens.in + event.tokens.cache_write + event.tokens.cache_read;
+      console.log(
+        `    ${local(event.ts).toFormat("HH:mm:ss")}  ${formatUsd(event.cost.final_usd).padStart(8)}  ${formatTokens(prompt).padStart(7)} in  ${formatTokens(event.tokens.out).padStart(7)} out  ${event.model ?? "unknown"}`
+      );
+    }
+  });
+
+withRangeOptions(
+  program
+    .command("top")
+    .description("List the most expensive requests and sessions (default: month to date)")
+    .option("--limit <n>", "rows per list", "10")
+    .option("--provider <provider>", "only this provider")
+    .option("--project <project>", "only this project")
+    .option("--json", "output JSON")
+)
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+    const { from, to } = range ?? { from: now.startOf("month"), to: now };
+    const limit = Math.max(1, parseInt(cmd.limit, 10) || 10);
+
+    const events = await queryEvents({ from, to, provider: cmd.provider, project: cmd.project });
+    const summary = aggregateEvents(events, timezone, from, to);
+    const topEvents = [...events]
+      .sort((a, b) => (b.cost.final_usd ?? 0) - (a.cost.final_usd ?? 0))
+      .slice(0, limit);
+    const topSessions = summarizeSessions(events).slice(0, limit);
+
+    if (cmd.json) {
+      console.log(
+        JSON.stringify(
+          { from: from.toISO(), to: to.toISO(), totals: summary.totals, events: topEvents, sessions: topSessions },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    if (topEvents.length === 0) {
+      console.log(`No usage between ${from.toISODate()} and ${to.toISODate()}.`);
+      return;
+    }
+    console.log(formatTotalsLine(range?.label ?? "MTD", summary.totals));
+    console.log("Most expensive requests:");
+    for (const event of topEvents) {
+      console.log(`  ${formatEventLine(event, timezone)}`);
+      if (typeof event.meta?.file === "string") console.log(`    ${event.meta.file}`);
+    }
+    if (topSessions.length > 0) {
+      console.log("Most expensive sessions:");
+      for (const session of topSessions) {
+        console.log(`  ${formatSessionLine(session, timezone)}`);
+        if (session.file) console.log(`    ${session.file}`);
+      }
+    }
+  });
+
+withRangeOptions(
+  program
+    .command("anomalies")
+    .description("Flag days, projects and sessions far above their rolling baseline (default: last 7 days)")
+    .option("--kind <kinds>", `comma-separated: ${ANOMALY_KINDS.join(",")}`)
+    .option("--z <score>", "standard deviations above the mean to flag (default: 3)")
+    .option("--baseline <days>", "days of history to compare against (default: 28)")
+    .option("--min <usd>", "ignore spend less than this far above the mean (default: 1)")
+    .option("--json", "output JSON")
+)
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    let range: ReportRange | null;
+    let kinds: AnomalyKind[] = ANOMALY_KINDS;
+    const overrides: { zScore?: number; baselineDays?: number; minUsd?: number } = {};
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+      if (cmd.kind) {
+        kinds = cmd.kind.split(",").map((kind: string) => kind.trim());
+        const unknown = kinds.filter((kind) => !isAnomalyKind(kind));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown kind: ${unknown.join(", ")} (expected ${ANOMALY_KINDS.join(", ")})`);
+        }
+      }
+      if (cmd.z !== undefined) {
+        overrides.zScore = Number(cmd.z);
+        if (!Number.isFinite(overrides.zScore) || overrides.zScore <= 0) {
+          throw new Error(`Invalid z-score: ${cmd.z} (expected a number above 0)`);
+        }
+      }
+      if (cmd.min !== undefined) {
+        overrides.minUsd = Number(cmd.min);
+        if (!Number.isFinite(overrides.minUsd) || overrides.minUsd < 0) {
+          throw new Error(`Invalid minimum: ${cmd.min} (expected a dollar amount of 0 or more)`);
+        }
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+    const { from, to } = range ?? { from: now.minus({ days: 6 }).startOf("day"), to: now };
+
+    if (cmd.baseline !== undefined) overrides.baselineDays = Math.max(1, parseInt(cmd.baseline, 10) || 28);
+    const anomalyOptions = resolveAnomalyOptions(config, overrides);
+
+    const anomalies = await loadAnomalies(timezone, from, to, anomalyOptions, kinds);
+
+    if (cmd.json) {
+      console.log(JSON.stringify({ from: from.toISO(), to: to.toISO(), options: anomalyOptions, anomalies }, null, 2));
+    } else if (anomalies.length === 0) {
+      console.log(`No anomalies between ${from.toISODate()} and ${to.toISODate()}.`);
+    } else {
+      for (const anomaly of anomalies) {
+        console.log(formatAnomalyLine(anomaly));
+        anomaly.files.forEach((file) => console.log(`  ${file}`));
+      }
+    }
+    // Let scheduled runs alert on a non-zero exit, like `pricing check`.
+    if (anomalies.length > 0) process.exitCode = 1;
+  });
+
+program
+  .command("compare")
+  .description("Compare spend between two windows, e.g. this month against last month")
+  .argument("[current]", "window to explain (this-month, last-week, 7d, 2026-03, 2026-01-01..2026-01-31, ...)", "this-month")
+  .argument("[previous]", "window to compare against (default: the one before current)")
+  .option("--year-ago", "compare against the same window a year earlier")
+  .option("--breakdown <kind>", `only show this breakdown (${BREAKDOWN_KEYS.join("|")})`)
+  .option("--top <n>", "rows per breakdown", "5")
+  .option("--json", "output JSON")
+  .action(async (currentSpec: string, previousSpec: string | undefined, cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+    const context = { timezone, now, weekStart: resolveWeekStart(config) };
+
+    let current: ReportRange;
+    let previous: ReportRange;
+    try {
+      if (previousSpec && cmd.yearAgo) throw new Error("Give a previous window or --year-ago, not both");
+      if (cmd.breakdown && !isBreakdownKey(cmd.breakdown)) {
+        throw new Error(`Unknown breakdown: ${cmd.breakdown} (expected ${BREAKDOWN_KEYS.join(", ")})`);
+      }
+      current = parseWindow(currentSpec, context);
+      previous = previousSpec ? parseWindow(previousSpec, context) : previousRange(current, cmd.yearAgo);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+
+    const top = Math.max(1, parseInt(cmd.top, 10) || 5);
+    const comparison = compareSummaries(
+      { label: current.label, ...(await loadRangeSummary(timezone, current.from, current.to)) },
+      { label: previous.label, ...(await loadRangeSummary(timezone, previous.from, previous.to)) },
+      top
+    );
+
+    if (cmd.json) {
+      console.log(JSON.stringify(comparison, null, 2));
+      return;
+    }
+
+    const span = (range: ReportRange) => `${range.from.toISODate()}..${range.to.toISODate()}`;
+    console.log(`${current.label} (${span(current)}) vs ${previous.label} (${span(previous)})`);
+    console.log(formatDeltaLine("Total", comparison.totals.final_usd));
+    const { tokens_in, tokens_out, count } = comparison.totals;
+    console.log(
+      `  events ${count.current} vs ${count.previous}, in ${tokens_in.current} vs ${tokens_in.previous}, out ${tokens_out.current} vs ${tokens_out.previous}`
+    );
+
+    if (!cmd.breakdown) {
+      for (const key of ["project", "model"] as const) {
+        const movers = comparison.movers[key];
+        if (movers.length === 0) continue;
+        console.log(`Biggest movers by ${key}:`);
+        movers.forEach((bucket) => console.log(`  ${formatDeltaLine(bucket.key, bucket)}`));
+      }
+    }
+
+    const keys = cmd.breakdown ? [cmd.breakdown as BreakdownKey] : BREAKDOWN_KEYS;
+    for (const key of keys) {
+      const buckets = comparison.breakdowns[key];
+      if (buckets.length === 0) continue;
+      console.log(`By ${key}:`);
+      buckets.slice(0, top).forEach((bucket) => console.log(`  ${formatDeltaLine(bucket.key, bucket)}`));
+      if (buckets.length > top) console.log(`  ... ${buckets.length - top} more`);
+    }
+  });
+
+withRangeOptions(
+  program
+    .command("export")
+    .description("Export events, or per-period totals, as CSV, JSONL or JSON (default: month to date)")
+    .option("--format <format>", `output format (${EXPORT_FORMATS.join("|")})`, "csv")
+    .option("--fields <names>", "columns to include, in order (comma-separated; meta.<key> for event meta)")
+    .option("--group <period>", `one row per ${EXPORT_PERIODS.join("|")} instead of per event`)
+    .option("--by <key>", `with --group, split each period by ${BREAKDOWN_KEYS.join("|")}`)
+    .option("--provider <provider>", "only events from this provider")
+    .option("--project <project>", "only events for this project")
+    .option("--model <model>", "only events for this model")
+    .option("-o, --output <path>", "write to a file instead of stdout")
+)
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    const fail = (message: string) => {
+      console.error(message);
+      process.exitCode = 1;
+    };
+
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+    } catch (err) {
+      return fail((err as Error).message);
+    }
+    const { from, to } = range ?? { from: now.startOf("month"), to: now };
+
+    if (!isExportFormat(cmd.format)) {
+      return fail(`Unknown format: ${cmd.format} (expected ${EXPORT_FORMATS.join(", ")})`);
+    }
+    if (cmd.group && !isExportPeriod(cmd.group)) {
+      return fail(`Unknown period: ${cmd.group} (expected ${EXPORT_PERIODS.join(", ")})`);
+    }
+    if (cmd.by && !isBreakdownKey(cmd.by)) {
+      return fail(`Unknown breakdown: ${cmd.by} (expected ${BREAKDOWN_KEYS.join(", ")})`);
+    }
+    if (cmd.by && !cmd.group) {
+      return fail("--by needs --group");
+    }
+
+    const exportOptions = {
+      timezone,
+      weekStart: resolveWeekStart(config),
+      from,
+      to,
+      group: cmd.group,
+      by: cmd.by,
+      fields: cmd.fields
+        ?.split(",")
+        .map((field: string) => field.trim())
+        .filter(Boolean),
+    };
+    const unknown = unknownExportFields(exportOptions);
+    if (unknown.length > 0) {
+      return fail(`Unknown fields: ${unknown.join(", ")} (available: ${exportColumns({ ...exportOptions, fields: undefined }).join(", ")})`);
+    }
+
+    const events = await queryEvents({
+      from,
+      to,
+      provider: cmd.provider,
+      project: cmd.project,
+      model: cmd.model,
+    });
+    const rows = buildExportRows(events, exportOptions);
+    const output = formatExport(rows, cmd.format, exportColumns(exportOptions));
+
+    if (cmd.output) {
+      fs.mkdirSync(path.dirname(path.resolve(cmd.output)), { recursive: true });
+      fs.writeFileSync(cmd.output, output);
+      console.error(`Wrote ${rows.length} rows to ${cmd.output}`);
+    } else {
+      process.stdout.write(output);
+    }
+  });
+
+withRangeOptions(
+  program
+    .command("report")
+    .description("Write a self-contained HTML dashboard (default: month to date)")
+    .requiredOption("--html <path>", "output HTML file")
+    .option("--open", "open generated report (macOS)")
+)
+  .action(async (cmd) => {
+    const options = program.opts();
+    const { config } = loadConfig(options.config);
+    const timezone = options.timezone ?? resolveTimezone(config);
+    const now = DateTime.now().setZone(timezone);
+
+    let range: ReportRange | null;
+    try {
+      range = parseRange(cmd, { timezone, now, weekStart: resolveWeekStart(config) });
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exitCode = 1;
+      return;
+    }
+    const { from, to } = range ?? { from: now.startOf("month"), to: now };
+
+    const events = await loadEventsForRange(timezone, from, to);
+    const data = buildReportData(events, timezone, from, to);
+    const htmlPath = path.resolve(cmd.html);
+    fs.mkdirSync(path.dirname(htmlPath), { recursive: true });
+    fs.writeFileSync(htmlPath, renderHtmlReport(data, loadVegaRuntime()));
+
+    console.log(`Report saved to: ${htmlPath}`);
+    console.log(`${from.toISODate()} to ${to.toISODate()}: ${formatUsd(data.summary.totals.final_usd)} across ${data.summary.totals.count} events`);
+
+    if (cmd.open && process.platform === "darwin") {
+      const { execSync } = await import("node:child_process");
+      execSync(`open "${htmlPath}"`);
+    }
   });
 
 program.parseAsync().catch((err) => {
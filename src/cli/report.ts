@@ -0,0 +1,286 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { DateTime } from "luxon";
+import * as vegaLite from "vega-lite";
+import {
+  Summary,
+  Totals,
+  aggregateEvents,
+  buildDailySeries,
+} from "../core/aggregate.js";
+import type { UsageEvent } from "../core/events.js";
+import { formatUsd } from "./utils.js";
+
+export interface ReportData {
+  title: string;
+  generatedAt: string;
+  summary: Summary;
+  daily: Array<{ date: string; provider: string; cost: number }>;
+  projects: Array<{ project: string; cost: number }>;
+  models: Array<{ model: string; cost: number }>;
+  billing: Array<{ billing: string; cost: number; count: number }>;
+  cache: Array<{ provider: string; hitRate: number; cacheRead: number; prompt: number }>;
+}
+
+const TOP_BUCKETS = 10;
+
+/** Largest buckets first; the rest are folded into "other". */
+function topBuckets(breakdown: Record<string, Totals>): Array<{ key: string; cost: number }> {
+  const ranked = Object.entries(breakdown)
+    .map(([key, totals]) => ({ key, cost: totals.final_usd }))
+    .sort((a, b) => b.cost - a.cost);
+  if (ranked.length <= TOP_BUCKETS) return ranked;
+  const rest = ranked.slice(TOP_BUCKETS - 1).reduce((sum, bucket) => sum + bucket.cost, 0);
+  return [...ranked.slice(0, TOP_BUCKETS - 1), { key: "other", cost: rest }];
+}
+
+export function buildReportData(
+  events: UsageEvent[],
+  timezone: string,
+  from: DateTime,
+  to: DateTime
+): ReportData {
+  const summary = aggregateEvents(events, timezone, from, to);
+
+  const daily: ReportData["daily"] = [];
+  for (const provider of Object.keys(summary.breakdowns.provider)) {
+    const providerEvents = events.filter((event) => event.provider === provider);
+    for (const point of buildDailySeries(providerEvents, timezone, from, to)) {
+      daily.push({ date: point.date, provider, cost: point.value });
+    }
+  }
+
+  // Share of prompt tokens (input, cache writes and reads) served from cache.
+  const cache = Object.entries(summary.breakdowns.provider).map(([provider, totals]) => {
+    const prompt = totals.tokens_in + totals.cache_write + totals.cache_read;
+    return {
+      provider,
+      hitRate: prompt > 0 ? totals.cache_read / prompt : 0,
+      cacheRead: totals.cache_read,
+      prompt,
+    };
+  });
+
+  return {
+    title: `AI spend ${from.toISODate()} to ${to.toISODate()}`,
+    generatedAt: DateTime.now().setZone(timezone).toISO() ?? "",
+    summary,
+    daily,
+    projects: topBuckets(summary.breakdowns.project).map(({ key, cost }) => ({ project: key, cost })),
+    models: topBuckets(summary.breakdowns.model).map(({ key, cost }) => ({ model: key, cost })),
+    billing: Object.entries(summary.breakdowns.billing).map(([billing, totals]) => ({
+      billing,
+      cost: totals.final_usd,
+      count: totals.count,
+    })),
+    cache,
+  };
+}
+
+const usdAxis = { title: null, format: "$,.2f" };
+
+/** Vega-Lite specs for each chart, keyed by section heading. */
+export function reportSpecs(data: ReportData): Array<{ title: string; spec: Record<string, unknown> }> {
+  const base = {
+    $schema: "https://vega.github.io/schema/vega-lite/v5.json",
+    width: "container",
+  };
+  // Bar lists get a fixed row height; step sizing clashes with container width.
+  const rows = (count: number) => Math.max(1, count) * 24;
+  return [
+    {
+      title: "Daily spend by provider",
+      spec: {
+        ...base,
+        height: 280,
+        data: { values: data.daily },
+        params: [{ name: "pick", select: { type: "point", fields: ["provider"] }, bind: "legend" }],
+        mark: { type: "bar", tooltip: true },
+        encoding: {
+          x: { field: "date", type: "ordinal", timeUnit: "yearmonthdate", title: null, axis: { format: "%b %d" } },
+          y: { field: "cost", type: "quantitative", stack: "zero", axis: usdAxis },
+          color: { field: "provider", type: "nominal", title: "Provider" },
+          opacity: { condition: { param: "pick", value: 1 }, value: 0.2 },
+          tooltip: [
+            { field: "date", type: "temporal", title: "Date" },
+            { field: "provider", title: "Provider" },
+            { field: "cost", type: "quantitative", title: "Cost", format: "$,.2f" },
+          ],
+        },
+      },
+    },
+    {
+      title: "Top projects",
+      spec: {
+        ...base,
+        height: rows(data.projects.length),
+        data: { values: data.projects },
+        mark: { type: "bar", tooltip: true },
+        encoding: {
+          y: { field: "project", type: "nominal", sort: "-x", title: null },
+          x: { field: "cost", type: "quantitative", axis: usdAxis },
+          tooltip: [
+            { field: "project", title: "Project" },
+            { field: "cost", type: "quantitative", title: "Cost", format: "$,.2f" },
+          ],
+        },
+      },
+    },
+    {
+      title: "Model mix",
+      spec: {
+        ...base,
+        height: 260,
+        data: { values: data.models },
+        mark: { type: "arc", innerRadius: 60, tooltip: true },
+        encoding: {
+          theta: { field: "cost", type: "quantitative", stack: true },
+          color: { field: "model", type: "nominal", title: "Model", sort: { field: "cost", order: "descending" } },
+          tooltip: [
+            { field: "model", title: "Model" },
+            { field: "cost", type: "quantitative", title: "Cost", format: "$,.2f" },
+          ],
+        },
+      },
+    },
+    {
+      title: "Billing mode",
+      spec: {
+        ...base,
+        height: rows(data.billing.length),
+        data: { values: data.billing },
+        mark: { type: "bar", tooltip: true },
+        encoding: {
+          y: { field: "billing", type: "nominal", title: null },
+          x: { field: "cost", type: "quantitative", axis: usdAxis },
+          color: { field: "billing", type: "nominal", legend: null },
+          tooltip: [
+            { field: "billing", title: "Billing" },
+            { field: "cost", type: "quantitative", title: "Cost", format: "$,.2f" },
+            { field: "count", type: "quantitative", title: "Events" },
+          ],
+        },
+      },
+    },
+    {
+      title: "Cache hit rate",
+      spec: {
+        ...base,
+        height: rows(data.cache.length),
+        data: { values: data.cache },
+        mark: { type: "bar", tooltip: true },
+        encoding: {
+          y: { field: "provider", type: "nominal", title: null },
+          x: {
+            field: "hitRate",
+            type: "quantitative",
+            scale: { domain: [0, 1] },
+            axis: { title: "Share of prompt tokens read from cache", format: ".0%" },
+          },
+          tooltip: [
+            { field: "provider", title: "Provider" },
+            { field: "hitRate", type: "quantitative", title: "Hit rate", format: ".1%" },
+            { field: "cacheRead", type: "quantitative", title: "Cache reads", format: "," },
+            { field: "prompt", type: "quantitative", title: "Prompt tokens", format: "," },
+          ],
+        },
+      },
+    },
+  ];
+}
+
+/** The Vega runtime, inlined so the report works offline. */
+export function loadVegaRuntime(): string {
+  const entry = createRequire(import.meta.url).resolve("vega");
+  return fs.readFileSync(path.join(path.dirname(entry), "vega.min.js"), "utf8");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** JSON that is safe inside a <script> element. */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+function totalsTable(summary: Summary): string {
+  const rows = Object.entries(summary.breakdowns.provider)
+    .sort(([, a], [, b]) => b.final_usd - a.final_usd)
+    .map(
+      ([provider, totals]) =>
+        `<tr><td>${escapeHtml(provider)}</td><td>${totals.count}</td><td>${formatUsd(totals.final_usd)}</td></tr>`
+    )
+    .join("\n");
+  return `<table>
+<thead><tr><th>Provider</th><th>Events</th><th>Cost</th></tr></thead>
+<tbody>
+${rows}
+<tr class="total"><td>Total</td><td>${summary.totals.count}</td><td>${formatUsd(summary.totals.final_usd)}</td></tr>
+</tbody>
+</table>`;
+}
+
+/**
+ * A single self-contained HTML file: specs are compiled to Vega here and
+ * rendered in the browser by the inlined runtime, with tooltips and a
+ * clickable provider legend.
+ */
+export function renderHtmlReport(data: ReportData, vegaRuntime: string): string {
+  const charts = reportSpecs(data).map(({ title, spec }) => ({
+    title,
+    spec: vegaLite.compile(spec as any).spec,
+  }));
+  const sections = charts
+    .map(
+      (chart, index) =>
+        `<section><h2>${escapeHtml(chart.title)}</h2><div class="chart" id="chart-${index}"></div></section>`
+    )
+    .join("\n");
+  const { totals } = data.summary;
+  const estimated = totals.estimated_usd > 0 && totals.reported_usd === 0;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #1f2328; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #656d76; margin-top: 0; }
+  .headline { font-size: 2rem; font-weight: 600; margin: 1rem 0; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; }
+  th, td { text-align: left; padding: 0.3rem 1.5rem 0.3rem 0; border-bottom: 1px solid #d0d7de; }
+  td:nth-child(n+2), th:nth-child(n+2) { text-align: right; }
+  tr.total td { font-weight: 600; }
+  .chart { width: 100%; }
+  section { margin-bottom: 2rem; page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(data.title)}</h1>
+<p class="meta">${escapeHtml(data.summary.timezone)} &middot; generated ${escapeHtml(data.generatedAt)}${estimated ? " &middot; costs are estimates from token counts" : ""}</p>
+<p class="headline">${formatUsd(totals.final_usd)}</p>
+${totalsTable(data.summary)}
+${sections}
+<script>${vegaRuntime}</script>
+<script>
+  const specs = ${scriptJson(charts.map((chart) => chart.spec))};
+  specs.forEach((spec, index) => {
+    new vega.View(vega.parse(spec), {
+      renderer: "svg",
+      container: "#chart-" + index,
+      hover: true,
+    }).runAsync();
+  });
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,471 @@
+import fs from "node:fs";
+import readline from "node:readline";
+import { DateTime } from "luxon";
+import {
+  BreakdownKey,
+  DailyPoint,
+  Summary,
+  aggregateEvents,
+  buildDailySeries,
+  eventBreakdownValue,
+} from "../core/aggregate.js";
+import type { UsageEvent } from "../core/events.js";
+import { RangeContext, ReportRange, parseWindow } from "../core/ranges.js";
+import { SessionSummary, sessionEvents, summarizeSessions } from "../core/sessions.js";
+import {
+  formatBreakdown,
+  formatEventLine,
+  formatSessionLine,
+  formatTotalsLine,
+  renderAsciiChart,
+} from "./utils.js";
+
+export type TuiTab = "overview" | BreakdownKey | "sessions";
+
+export const TUI_TABS: Array<{ tab: TuiTab; label: string }> = [
+  { tab: "overview", label: "Overview" },
+  { tab: "provider", label: "Providers" },
+  { tab: "project", label: "Projects" },
+  { tab: "model", label: "Models" },
+  { tab: "sessions", label: "Sessions" },
+];
+
+export type TuiWindow = "today" | "mtd" | "ytd" | "custom";
+
+export interface TuiState {
+  tab: number;
+  window: TuiWindow;
+  /** The window typed after pressing `c`. */
+  custom: ReportRange | null;
+  /** Highlighted row on list tabs. */
+  selected: number;
+  /** The breakdown value or session id being drilled into. */
+  drill: string | null;
+  /** Text typed so far while entering a custom window. */
+  input: string | null;
+  message: string | null;
+}
+
+export interface TuiData {
+  range: ReportRange;
+  timezone: string;
+  events: UsageEvent[];
+  summary: Summary;
+  sessions: SessionSummary[];
+}
+
+/** What the key handler asks the driver to do besides redrawing. */
+export type TuiEffect = "quit" | "reload" | null;
+
+/** The subset of readline's keypress info the handler looks at. */
+export interface TuiKey {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+}
+
+interface TuiRow {
+  key: string;
+  line: string;
+}
+
+const HELP = "tab/←→ tabs  ↑↓ select  enter drill in  esc back  t/m/y today/MTD/YTD  c custom  r reload  q quit";
+
+export function initialTuiState(): TuiState {
+  return { tab: 0, window: "mtd", custom: null, selected: 0, drill: null, input: null, message: null };
+}
+
+/** The window `state` shows, resolved against `context.now`. */
+export function tuiRange(state: TuiState, context: RangeContext): ReportRange {
+  if (state.window === "custom" && state.custom) return state.custom;
+  const range = parseWindow(state.window === "custom" ? "mtd" : state.window, context);
+  return { ...range, label: { today: "Today", mtd: "MTD", ytd: "YTD", custom: "MTD" }[state.window] };
+}
+
+export function buildTuiData(events: UsageEvent[], timezone: string, range: ReportRange): TuiData {
+  const inRange = events.filter((event) => {
+    const ts = DateTime.fromISO(event.ts);
+    return ts >= range.from && ts <= range.to;
+  });
+  return {
+    range,
+    timezone,
+    events: inRange,
+    summary: aggregateEvents(inRange, timezone, range.from, range.to),
+    sessions: summarizeSessions(inRange),
+  };
+}
+
+/** The rows a list tab offers, in display order. */
+function tabRows(data: TuiData, tab: TuiTab): TuiRow[] {
+  if (tab === "overview") return [];
+  if (tab === "sessions") {
+    return data.sessions.map((session) => ({
+      key: session.id,
+      line: formatSessionLine(session, data.timezone),
+    }));
+  }
+  const breakdown = data.summary.breakdowns[tab];
+  // Same order as formatBreakdown, so keys line up with its lines.
+  const keys = Object.entries(breakdown)
+    .sort((a, b) => b[1].final_usd - a[1].final_usd)
+    .map(([key]) => key);
+  const lines = formatBreakdown(breakdown, keys.length);
+  return keys.map((key, index) => ({ key, line: lines[index] }));
+}
+
+/** Keys of the rows on the current tab, for `handleTuiKey`. */
+export function tuiRowKeys(state: TuiState, data: TuiData): string[] {
+  return tabRows(data, TUI_TABS[state.tab].tab).map((row) => row.key);
+}
+
+/**
+ * Cost over the window: hourly for a single day, otherwise daily, with
+ * neighbouring points summed so the chart fits in `maxPoints` columns.
+ */
+export function tuiSeries(events: UsageEvent[], range: ReportRange, timezone: string, maxPoints: number): DailyPoint[] {
+  let series: DailyPoint[];
+  if (range.unit === "day") {
+    const start = range.from.setZone(timezone).startOf("day");
+    series = Array.from({ length: 24 }, (_, hour) => ({
+      date: start.plus({ hours: hour }).toFormat("yyyy-MM-dd HH:mm"),
+      value: 0,
+    }));
+    for (const event of events) {
+      const hour = DateTime.fromISO(event.ts).setZone(timezone).hour;
+      series[hour].value += event.cost.final_usd ?? 0;
+    }
+  } else {
+    series = buildDailySeries(events, timezone, range.from, range.to);
+  }
+
+  const size = Math.ceil(series.length / Math.max(1, maxPoints));
+  if (size <= 1) return series;
+  const fitted: DailyPoint[] = [];
+  for (let index = 0; index < series.length; index += size) {
+    const group = series.slice(index, index + size);
+    fitted.push({ date: group[0].date, value: group.reduce((sum, point) => sum + point.value, 0) });
+  }
+  return fitted;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** Apply one keypress to `state`; `rows` are the keys listed on the current tab. */
+export function handleTuiKey(
+  state: TuiState,
+  key: TuiKey,
+  rows: string[],
+  context: RangeContext
+): { state: TuiState; effect: TuiEffect } {
+  const rowCount = rows.length;
+  if (key.ctrl && key.name === "c") return { state, effect: "quit" };
+
+  if (state.input !== null) {
+    if (key.name === "escape") return { state: { ...state, input: null }, effect: null };
+    if (key.name === "backspace") {
+      return { state: { ...state, input: state.input.slice(0, -1) }, effect: null };
+    }
+    if (key.name === "return" || key.name === "enter") {
+      if (state.input.trim() === "") return { state: { ...state, input: null }, effect: null };
+      try {
+        const custom = parseWindow(state.input, context);
+        return {
+          state: { ...state, window: "custom", custom, input: null, selected: 0, message: null },
+          effect: "reload",
+        };
+      } catch (err) {
+        return { state: { ...state, input: null, message: (err as Error).message }, effect: null };
+      }
+    }
+    const text = key.sequence ?? "";
+    if (text.length === 1 && text >= " " && !key.ctrl) {
+      return { state: { ...state, input: state.input + text }, effect: null };
+    }
+    return { state, effect: null };
+  }
+
+  const next = { ...state, message: null };
+  const switchTab = (tab: number) => ({
+    state: { ...next, tab: (tab + TUI_TABS.length) % TUI_TABS.length, selected: 0, drill: null },
+    effect: null,
+  });
+  const select = (selected: number) => ({
+    state: { ...next, selected: clamp(selected, 0, Math.max(0, rowCount - 1)) },
+    effect: null,
+  });
+  const showWindow = (window: TuiWindow) => ({
+    state: { ...next, window, selected: 0 },
+    effect: "reload" as const,
+  });
+
+  if (key.name === "tab") return switchTab(state.tab + (key.shift ? -1 : 1));
+  if (/^[1-9]$/.test(key.sequence ?? "") && Number(key.sequence) <= TUI_TABS.length) {
+    return switchTab(Number(key.sequence) - 1);
+  }
+
+  switch (key.name) {
+    case "q":
+      return { state, effect: "quit" };
+    case "right":
+    case "l":
+      return switchTab(state.tab + 1);
+    case "left":
+    case "h":
+      return switchTab(state.tab - 1);
+    case "up":
+    case "k":
+      return state.drill ? { state: next, effect: null } : select(state.selected - 1);
+    case "down":
+    case "j":
+      return state.drill ? { state: next, effect: null } : select(state.selected + 1);
+    case "pageup":
+      return select(state.selected - 10);
+    case "pagedown":
+      return select(state.selected + 10);
+    case "home":
+      return select(0);
+    case "end":
+      return select(rowCount - 1);
+    case "return":
+    case "enter":
+      return rowCount > 0 && !state.drill
+        ? { state: { ...next, drill: rows[clamp(state.selected, 0, rowCount - 1)] }, effect: null }
+        : { state: next, effect: null };
+    case "escape":
+    case "backspace":
+      return { state: { ...next, drill: null }, effect: null };
+    case "t":
+      return showWindow("today");
+    case "m":
+      return showWindow("mtd");
+    case "y":
+      return showWindow("ytd");
+    case "c":
+      return { state: { ...next, input: "" }, effect: null };
+    case "r":
+      return { state: next, effect: "reload" };
+  }
+  return { state, effect: null };
+}
+
+function fit(line: string, width: number): string {
+  return line.length > width ? `${line.slice(0, Math.max(0, width - 1))}…` : line;
+}
+
+function chartLines(events: UsageEvent[], data: TuiData, width: number, height: number): string[] {
+  const series = tuiSeries(events, data.range, data.timezone, width - 12);
+  if (series.every((point) => point.value === 0)) return ["No cost in this window."];
+  return renderAsciiChart(
+    series.map((point) => point.date),
+    [series.map((point) => point.value)],
+    clamp(height - 1, 3, 20)
+  );
+}
+
+function drillLines(state: TuiState, data: TuiData, tab: TuiTab, width: number, height: number): string[] {
+  const key = state.drill ?? "";
+  if (tab === "sessions") {
+    const session = data.sessions.find((entry) => entry.id === key);
+    if (!session) return [`Session ${key} has no usage in this window.`];
+    const turns = sessionEvents(data.events, session);
+    const lines = [
+      formatTotalsLine(`Session ${session.id} (${session.project}, ${session.turns} turns)`, session.totals),
+    ];
+    if (session.file) lines.push(session.file);
+    lines.push(...chartLines(turns, data, width, Math.floor(height / 2)));
+    lines.push(...turns.map((event) => formatEventLine(event, data.timezone)));
+    return lines;
+  }
+  const breakdown = tab as BreakdownKey;
+  const totals = data.summary.breakdowns[breakdown][key];
+  if (!totals) return [`${key} has no usage in this window.`];
+  const events = data.events.filter((event) => eventBreakdownValue(event, breakdown) === key);
+  return [formatTotalsLine(key, totals), "", ...chartLines(events, data, width, height - 2)];
+}
+
+/** Draw the whole screen as `height` lines of at most `width` columns. */
+export function renderTui(state: TuiState, data: TuiData, width: number, height: number): string[] {
+  const tab = TUI_TABS[state.tab].tab;
+  const tabBar = TUI_TABS.map((entry, index) =>
+    index === state.tab ? `\x1b[7m ${entry.label} \x1b[0m` : ` ${entry.label} `
+  ).join(" ");
+  const header = [
+    `${tabBar}  ${data.range.label} ${data.range.from.toISODate()}..${data.range.to.toISODate()}`,
+    fit(formatTotalsLine(data.range.label, data.summary.totals), width),
+    "─".repeat(width),
+  ];
+  const footer =
+    state.input !== null
+      ? `Window (e.g. last-week, 7d, 2026-03, 2026-01-01..2026-01-31): ${state.input}█`
+      : state.message ?? HELP;
+  const bodyHeight = Math.max(1, height - header.length - 2);
+
+  let body: string[];
+  if (tab === "overview") {
+    const providers = formatBreakdown(data.summary.breakdowns.provider, 5);
+    const chartHeight = bodyHeight - providers.length - 1;
+    body = [...chartLines(data.events, data, width, chartHeight), "", ...providers];
+  } else if (state.drill) {
+    body = drillLines(state, data, tab, width, bodyHeight);
+  } else {
+    const rows = tabRows(data, tab);
+    if (rows.length === 0) {
+      body = ["No usage in this window."];
+    } else {
+      const selected = clamp(state.selected, 0, rows.length - 1);
+      const offset = Math.max(0, selected - bodyHeight + 1);
+      body = rows.slice(offset, offset + bodyHeight).map((row, index) => {
+        const line = fit(row.line, width - 2);
+        return offset + index === selected ? `\x1b[7m> ${line.padEnd(width - 2)}\x1b[0m` : `  ${line}`;
+      });
+    }
+  }
+
+  body = body.slice(0, bodyHeight).map((line) => (line.includes("\x1b[") ? line : fit(line, width)));
+  while (body.length < bodyHeight) body.push("");
+  return [...header, ...body, "─".repeat(width), fit(footer, width)];
+}
+
+export interface TuiOptions {
+  timezone: string;
+  weekStart: number;
+  /** Load the stored events covering from..to. */
+  load(from: DateTime, to: DateTime): Promise<UsageEvent[]>;
+  /** Files or directories whose changes trigger a reload. */
+  watchPaths: string[];
+}
+
+/**
+ * Run the full-screen UI until the user quits. Needs a TTY on stdin and
+ * stdout. An uncaught error restores the terminal and rejects with it.
+ */
+export async function runTui(options: TuiOptions): Promise<void> {
+  const { stdin, stdout } = process;
+  let state = initialTuiState();
+  let data: TuiData | null = null;
+  let loading: Promise<void> | null = null;
+  // A reload asked for while one is running (e.g. a window switch during a
+  // watcher-triggered reload) runs again once it finishes.
+  let reloadAgain = false;
+  let reloadTimer: NodeJS.Timeout | null = null;
+  let quit: () => void = () => {};
+  let fail: (err: Error) => void = () => {};
+  let stopped = false;
+
+  const context = () => ({
+    timezone: options.timezone,
+    now: DateTime.now().setZone(options.timezone),
+    weekStart: options.weekStart,
+  });
+
+  const draw = () => {
+    if (stopped) return;
+    const lines = data
+      ? renderTui(state, data, stdout.columns || 80, stdout.rows || 24)
+      : ["thinktax", "", state.message ?? "Loading…", "", "r reload  q quit"];
+    stdout.write(`\x1b[H\x1b[2J${lines.join("\n")}`);
+  };
+
+  const reload = (): Promise<void> => {
+    if (loading) {
+      reloadAgain = true;
+      return loading;
+    }
+    loading = (async () => {
+      const range = tuiRange(state, context());
+      const events = await options.load(range.from, range.to);
+      data = buildTuiData(events, options.timezone, range);
+      draw();
+    })()
+      .catch((err) => {
+        state = { ...state, message: `Reload failed: ${(err as Error).message}` };
+        draw();
+      })
+      .finally(() => {
+        loading = null;
+        if (reloadAgain && !stopped) {
+          reloadAgain = false;
+          void reload();
+        }
+      });
+    return loading;
+  };
+
+  const scheduleReload = () => {
+    if (reloadTimer) clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => void reload(), 500);
+  };
+
+  const onKey = (_text: string | undefined, key: TuiKey | undefined) => {
+    // Keys work before the first load succeeds, so a failed load can still be quit.
+    const rows = data ? tuiRowKeys(state, data) : [];
+    const result = handleTuiKey(state, key ?? {}, rows, context());
+    state = result.state;
+    if (result.effect === "quit") quit();
+    else if (result.effect === "reload") void reload();
+    else draw();
+  };
+
+  let restored = false;
+  const restore = () => {
+    if (restored) return;
+    restored = true;
+    if (stdin.isTTY) stdin.setRawMode(false);
+    stdout.write("\x1b[?25h\x1b[?1049l");
+  };
+  const onSignal = () => quit();
+  const onCrash = (err: unknown) => {
+    restore();
+    fail(err instanceof Error ? err : new Error(String(err)));
+  };
+
+  const watchers: fs.FSWatcher[] = [];
+  for (const target of options.watchPaths) {
+    if (!fs.existsSync(target)) continue;
+    try {
+      const watcher = fs.watch(target, { recursive: fs.statSync(target).isDirectory() }, scheduleReload);
+      watcher.on("error", () => watcher.close());
+      watchers.push(watcher);
+    } catch {
+      // Without a watcher the view still reloads on `r`.
+    }
+  }
+
+  const done = new Promise<void>((resolve, reject) => {
+    quit = resolve;
+    fail = reject;
+  });
+  process.on("exit", restore);
+  process.on("SIGTERM", onSignal);
+  process.on("SIGHUP", onSignal);
+  process.on("uncaughtException", onCrash);
+  process.on("unhandledRejection", onCrash);
+  try {
+    stdout.write("\x1b[?1049h\x1b[?25l");
+    readline.emitKeypressEvents(stdin);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("keypress", onKey);
+    stdout.on("resize", draw);
+    draw();
+    await Promise.race([reload(), done]);
+    await done;
+  } finally {
+    stopped = true;
+    stdin.off("keypress", onKey);
+    stdout.off("resize", draw);
+    if (reloadTimer) clearTimeout(reloadTimer);
+    for (const watcher of watchers) watcher.close();
+    restore();
+    stdin.pause();
+    process.off("exit", restore);
+    process.off("SIGTERM", onSignal);
+    process.off("SIGHUP", onSignal);
+    process.off("uncaughtException", onCrash);
+    process.off("unhandledRejection", onCrash);
+  }
+}
@@ -1,10 +1,39 @@
-import { Totals } from "../core/aggregate.js";
+import type { Command } from "commander";
+import asciichart from "asciichart";
+import { DateTime, Info } from "luxon";
+import { DailyPoint, Totals } from "../core/aggregate.js";
+import { BudgetStatus } from "../core/budgets.js";
+import { Anomaly } from "../core/anomalies.js";
+import { BucketDelta, Delta } from "../core/compare.js";
+import { ForecastHorizon } from "../core/forecast.js";
+import { Heatmap } from "../core/heatmap.js";
+import type { UsageEvent } from "../core/events.js";
+import { PricingModel, PricingRates } from "../core/pricing.js";
+import { SessionSummary } from "../core/sessions.js";
+
+/** Add the range flags understood by `parseRange` to a reporting command. */
+export function withRangeOptions(command: Command): Command {
+  return command
+    .option("--from <date>", "first day (YYYY-MM-DD)")
+    .option("--to <date>", "last day, inclusive (YYYY-MM-DD; default: today)")
+    .option("--last <span>", "trailing window ending today, e.g. 7d, 2w, 3m, 1y")
+    .option("--week", "this week")
+    .option("--last-week", "last week")
+    .option("--month <yyyy-mm>", "a calendar month")
+    .option("--last-month", "last calendar month");
+}
 
 export function formatUsd(value: number | null | undefined): string {
   if (value === null || value === undefined) return "-";
   return `$${value.toFixed(2)}`;
 }
 
+/** Signed USD amount, e.g. "+$1.20" or "-$0.35". */
+export function formatUsdDelta(value: number): string {
+  const sign = value < 0 ? "-" : "+";
+  return `${sign}${formatUsd(Math.abs(value))}`;
+}
+
 export function formatTotalsLine(label: string, totals: Totals): string {
   let line = `${label}: ${formatUsd(totals.final_usd)} (in ${totals.tokens_in}, out ${totals.tokens_out})`;
   if (totals.subscription_count > 0 && totals.subscription_saved_usd > 0) {
@@ -20,5 +49,157 @@ export function formatBreakdown(
   return Object.entries(breakdown)
     .sort((a, b) => b[1].final_usd - a[1].final_usd)
     .slice(0, max)
-    .map(([key, totals]) => formatTotalsLine(key, totals));
+    .map(([key, totals]) => {
+      const line = formatTotalsLine(key, totals);
+      return totals.guessed_count > 0
+        ? `${line} [price guessed for ${totals.guessed_count} events]`
+        : line;
+    });
+}
+
+/** e.g. "web: $60.00 vs $20.00, +$40.00 (+200%)"; buckets add their share of the change. */
+export function formatDeltaLine(label: string, change: Delta | BucketDelta): string {
+  const percent =
+    change.percent !== null
+      ? `${change.percent >= 0 ? "+" : ""}${Math.round(change.percent)}%`
+      : change.current === 0
+        ? "0%"
+        : "new";
+  let line = `${label}: ${formatUsd(change.current)} vs ${formatUsd(change.previous)}, ${formatUsdDelta(change.delta)} (${percent})`;
+  if ("share" in change && change.share !== null && change.delta !== 0) {
+    line += ` [${Math.round(change.share * 100)}% of change]`;
+  }
+  return line;
+}
+
+export function formatBudgetLine(status: BudgetStatus): string {
+  const percent = `${Math.round(status.percent)}%`;
+  let line = `${status.name}: ${formatUsd(status.spent_usd)} of ${formatUsd(status.limit_usd)} (${percent})`;
+  if (status.state === "exceeded") {
+    line += ` [exceeded by ${formatUsd(-status.remaining_usd)}]`;
+  } else if (status.state === "warning") {
+    line += ` [warning, ${formatUsd(status.remaining_usd)} left]`;
+  }
+  return line;
+}
+
+export function formatForecastLine(label: string, horizon: ForecastHorizon): string {
+  return `${label}: ${formatUsd(horizon.projected_usd)} (${formatUsd(horizon.low_usd)}–${formatUsd(horizon.high_usd)})`;
+}
+
+/** Per-million rates as "in $3 / out $15 / cache w $3.75 r $0.3". */
+export function formatPricingRates(rates: Partial<PricingRates>): string {
+  const rate = (value: number | undefined) => (value === undefined ? "-" : `$${value}`);
+  let line = `in ${rate(rates.input_per_million)} / out ${rate(rates.output_per_million)}`;
+  if (rates.cache_write_per_million !== undefined || rates.cache_read_per_million !== undefined) {
+    line += ` / cache w ${rate(rates.cache_write_per_million)} r ${rate(rates.cache_read_per_million)}`;
+  }
+  if (rates.cache_write_1h_per_million !== undefined) {
+    line += ` / 1h w ${rate(rates.cache_write_1h_per_million)}`;
+  }
+  return line;
+}
+
+export function formatPricingEntry(entry: PricingModel): string {
+  let line = `${entry.provider}/${entry.model}: ${formatPricingRates(entry)}`;
+  if (entry.discount_percent) line += ` [-${entry.discount_percent}%]`;
+  if (entry.origin && entry.origin !== "bundled") line += ` (${entry.origin})`;
+  return line;
+}
+
+/** e.g. "45s", "12m", "1h 05m". */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/** Compact token count, e.g. "950", "12.4k", "3.1M". */
+export function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+/** One row of `thinktax sessions`: id, local start, duration, turns, cost, project and models. */
+export function formatSessionLine(session: SessionSummary, timezone: string): string {
+  const start = DateTime.fromISO(session.start).setZone(timezone).toFormat("yyyy-MM-dd HH:mm");
+  const tokens = session.totals.tokens_in + session.totals.cache_write + session.totals.cache_read;
+  const models = session.models.map((entry) => entry.model).join(", ");
+  return [
+    session.id.slice(0, 8).padEnd(8),
+    start,
+    formatDuration(session.duration_ms).padStart(7),
+    `${session.turns} turns`.padStart(10),
+    `${formatTokens(tokens)} in / ${formatTokens(session.totals.tokens_out)} out`.padEnd(22),
+    formatUsd(session.totals.final_usd).padStart(9),
+    `${session.project} [${models}]`,
+  ].join("  ");
+}
+
+/** One row of `thinktax top`: cost, local time, model, project and session. */
+export function formatEventLine(event: UsageEvent, timezone: string): string {
+  const ts = DateTime.fromISO(event.ts).setZone(timezone).toFormat("yyyy-MM-dd HH:mm");
+  const prompt = event.tokens.in + event.tokens.cache_write + event.tokens.cache_read;
+  const session = event.session ? ` session ${event.session.slice(0, 8)}` : "";
+  return [
+    formatUsd(event.cost.final_usd).padStart(9),
+    ts,
+    `${formatTokens(prompt)} in / ${formatTokens(event.tokens.out)} out`.padEnd(22),
+    `${event.model ?? "unknown"} ${event.project.name ?? event.project.id ?? "unassigned"}${session}`,
+  ].join("  ");
+}
+
+/** e.g. "2026-02-14 project agents: $91.20 vs mean $4.10 (z 8.3)". */
+export function formatAnomalyLine(anomaly: Anomaly): string {
+  const z = anomaly.z === null ? "no prior spread" : `z ${anomaly.z.toFixed(1)}`;
+  const subject = anomaly.kind === "day" ? "day" : `${anomaly.kind} ${anomaly.key}`;
+  return `${anomaly.date} ${subject}: ${formatUsd(anomaly.value_usd)} vs mean ${formatUsd(anomaly.baseline_mean_usd)} (${z})`;
+}
+
+/**
+ * An asciichart plot of one or more series over `dates`, with the first and
+ * last dates underneath.
+ */
+export function renderAsciiChart(
+  dates: string[],
+  series: number[][],
+  height: number,
+  colors?: string[]
+): string[] {
+  const chart = asciichart.plot(series, {
+    height,
+    colors,
+    format: (x: number) => formatUsd(x).padStart(8),
+  });
+  const first = dates[0]?.slice(5) ?? "";
+  const last = dates[dates.length - 1]?.slice(5) ?? "";
+  return [...chart.split("\n"), "  " + first + " ".repeat(Math.max(0, dates.length - 12)) + last];
+}
+
+const HEATMAP_SHADES = ["░", "▒", "▓", "█"];
+/** 256-color ramp from cool to hot, one entry per shade. */
+const HEATMAP_COLORS = [31, 142, 208, 196];
+
+/** A weekday × hour grid, each cell shaded and colored by its share of the busiest cell. */
+export function renderHeatmapGrid(heatmap: Heatmap): string[] {
+  const format = (value: number) => (heatmap.metric === "cost" ? formatUsd(value) : formatTokens(value));
+  const header = "     " + Array.from({ length: 24 }, (_, hour) => String(hour).padStart(2, "0")).join(" ");
+  const rows = heatmap.cells.map((cells, row) => {
+    const day = Info.weekdays("short")[heatmap.weekdays[row] - 1];
+    const grid = cells
+      .map((value) => {
+        if (value <= 0 || heatmap.max <= 0) return "\x1b[38;5;238m··\x1b[0m";
+        const level = Math.min(3, Math.ceil((value / heatmap.max) * 4) - 1);
+        return `\x1b[38;5;${HEATMAP_COLORS[level]}m${HEATMAP_SHADES[level].repeat(2)}\x1b[0m`;
+      })
+      .join(" ");
+    const total = cells.reduce((sum, value) => sum + value, 0);
+    return `${day}  ${grid}  ${format(total).padStart(9)}`;
+  });
+  const legend = HEATMAP_SHADES.map(
+    (shade, level) => `\x1b[38;5;${HEATMAP_COLORS[level]}m${shade}\x1b[0m ≤${(level + 1) * 25}%`
+  ).join("  ");
+  return [header, ...rows, `     ·· none  ${legend} of the busiest hour (${format(heatmap.max)})`];
 }
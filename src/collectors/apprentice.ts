@@ -1,14 +1,14 @@
 import path from "node:path";
-import os from "node:os";
 import fg from "fast-glob";
 import {
   UsageEvent,
   UsageProvider,
   emptyCost,
   createEventId,
-  readJsonl,
 } from "../core/events.js";
+import { FileCursors, readJsonlSince, retainCursors } from "../core/cursors.js";
 import { debug } from "../core/logger.js";
+import { resolveApprenticeUsageDir } from "../core/config.js";
 import type { ThinktaxConfig } from "../core/config.js";
 
 /** Map Apprentice provider strings to thinktax UsageProvider. */
@@ -32,19 +32,22 @@ interface ApprenticeEntry {
 }
 
 export async function collectApprentice(
-  _config: ThinktaxConfig
+  config: ThinktaxConfig,
+  cursors?: FileCursors
 ): Promise<UsageEvent[]> {
-  const usageDir = path.join(os.homedir(), ".apprentice", "usage");
+  const usageDir = resolveApprenticeUsageDir(config);
   debug("Apprentice: scanning", usageDir);
 
   const pattern = path.join(usageDir, "**/*.jsonl").replace(/\\/g, "/");
   const files = await fg(pattern, { onlyFiles: true, dot: true });
   debug("Apprentice: found", files.length, "JSONL files");
+  if (cursors) retainCursors(cursors, files);
 
   const events: UsageEvent[] = [];
 
   for (const filePath of files) {
-    const entries = await readJsonl<ApprenticeEntry>(filePath);
+    const chunk = readJsonlSince<ApprenticeEntry>(filePath, cursors?.[filePath]);
+    const entries = chunk.entries;
     let fileEvents = 0;
 
     for (const entry of entries) {
@@ -87,7 +90,9 @@ export async function collectApprentice(
           name: "Apprentice",
           root: null,
         },
+        session: path.basename(filePath, ".jsonl"),
         meta: {
+          file: filePath,
           role: entry.role,
           billing: "api",
           latencyMs: entry.latencyMs,
@@ -98,6 +103,7 @@ export async function collectApprentice(
       fileEvents++;
     }
 
+    if (cursors) cursors[filePath] = chunk.cursor;
     if (fileEvents > 0) {
       debug(
         "Apprentice:",
@@ -4,12 +4,13 @@ import { DateTime } from "luxon";
 import { ThinktaxConfig, resolveClaudeProjectsDir, resolveBillingSessionsFile } from "../core/config.js";
 import {
   UsageEvent,
+  UsageProject,
   emptyCost,
-  emptyProject,
   createEventId,
   readJsonl,
 } from "../core/events.js";
-import { resolveProjectFromMapping } from "../core/projects.js";
+import { FileCursors, readJsonlSince, retainCursors } from "../core/cursors.js";
+import { findGitRoot, resolveProjectFromMapping } from "../core/projects.js";
 import { debug } from "../core/logger.js";
 
 const SKIP_TYPES = new Set([
@@ -57,6 +58,21 @@ function extractUsage(entry: any): {
   return { input, output, cacheWrite, cacheRead };
 }
 
+/** Signals that select long-context, priority or batch rates and 1-hour cache writes. */
+function extractPricingSignals(
+  entry: any,
+  usage: { input: number; cacheWrite: number; cacheRead: number }
+): Record<string, unknown> {
+  const raw = entry?.message?.usage ?? entry?.usage ?? entry?.data?.usage;
+  const serviceTier = raw?.service_tier ?? null;
+  const cacheWrite1h = raw?.cache_creation?.ephemeral_1h_input_tokens;
+  return {
+    service_tier: typeof serviceTier === "string" ? serviceTier : null,
+    cache_write_1h_tokens: typeof cacheWrite1h === "number" ? cacheWrite1h : null,
+    prompt_tokens: usage.input + usage.cacheWrite + usage.cacheRead,
+  };
+}
+
 function extractTimestamp(entry: any): string {
   const raw =
     entry?.timestamp ??
@@ -116,8 +132,227 @@ function extractSessionId(entries: any[]): string | null {
   return null;
 }
 
-export async function collectClaude(
+interface EntryContext {
+  cwd: string | null;
+  gitBranch: string | null;
+}
+
+/** Claude Code writes cwd and gitBranch on every entry; carry the last seen forward. */
+function nextContext(entry: any, previous: EntryContext): EntryContext {
+  return {
+    cwd: typeof entry?.cwd === "string" && entry.cwd ? entry.cwd : previous.cwd,
+    gitBranch:
+      typeof entry?.gitBranch === "string" && entry.gitBranch
+        ? entry.gitBranch
+        : previous.gitBranch,
+  };
+}
+
+function createProjectResolver(
   config: ThinktaxConfig
+): (instanceId: string, cwd: string | null) => UsageProject {
+  const roots = new Map<string, string>();
+  return (instanceId, cwd) => {
+    let root: string | null = null;
+    if (cwd) {
+      root = roots.get(cwd) ?? findGitRoot(cwd) ?? cwd;
+      roots.set(cwd, root);
+    }
+    return resolveProjectFromMapping(config, instanceId, root);
+  };
+}
+
+function extractMessageKey(
+  entry: any
+): { messageId: string; requestId: string | null } | null {
+  const messageId = entry?.message?.id;
+  if (typeof messageId !== "string" || !messageId) return null;
+  const requestId = entry?.requestId ?? entry?.request_id ?? null;
+  return { messageId, requestId: typeof requestId === "string" ? requestId : null };
+}
+
+function messageEventId(messageId: string, requestId: string | null): string {
+  return createEventId({ source: "claude_code", messageId, requestId });
+}
+
+/** The id events had before they were keyed on message.id + requestId. */
+function legacyEventId(entry: any, filePath: string): string | null {
+  const usage = extractUsage(entry);
+  if (!usage) return null;
+  return createEventId({
+    source: "claude_code",
+    ts: extractTimestamp(entry),
+    model: extractModel(entry),
+    tokens: usage,
+    instanceId: path.basename(path.dirname(filePath)),
+  });
+}
+
+/**
+ * Merge two events for the same assistant message. Claude Code repeats the
+ * message's usage on every content-block line, and resumed or forked sessions
+ * copy earlier messages into new files, so keep the largest token counts and
+ * the earliest sighting.
+ */
+export function mergeClaudeEvents(a: UsageEvent, b: UsageEvent): UsageEvent {
+  const [first, second] =
+    DateTime.fromISO(b.ts).toMillis() < DateTime.fromISO(a.ts).toMillis() ? [b, a] : [a, b];
+  return {
+    ...first,
+    model: first.model ?? second.model,
+    tokens: {
+      in: Math.max(first.tokens.in, second.tokens.in),
+      out: Math.max(first.tokens.out, second.tokens.out),
+      cache_write: Math.max(first.tokens.cache_write, second.tokens.cache_write),
+      cache_read: Math.max(first.tokens.cache_read, second.tokens.cache_read),
+    },
+  };
+}
+
+export interface ClaudeCollapseResult {
+  events: UsageEvent[];
+  /** Stored events folded into another event for the same message. */
+  duplicates: UsageEvent[];
+  /** Events moved from a legacy per-line id to a per-message id. */
+  rekeyed: number;
+  /** Legacy events whose transcript line could no longer be found. */
+  unmatched: number;
+}
+
+/**
+ * Collapse stored Claude Code events that belong to the same assistant
+ * message. Legacy events are matched back to their transcript lines through
+ * `meta.file`; events from other sources pass through unchanged. Merged events
+ * are passed through `recost` so their cost matches the merged token counts.
+ */
+export async function collapseClaudeEvents(
+  events: UsageEvent[],
+  recost: (event: UsageEvent) => UsageEvent = (event) => event
+): Promise<ClaudeCollapseResult> {
+  const legacyFiles = new Set<string>();
+  for (const event of events) {
+    if (event.source !== "claude_code" || event.meta?.messageId) continue;
+    if (typeof event.meta?.file === "string") legacyFiles.add(event.meta.file);
+  }
+
+  const legacyKeys = new Map<string, { messageId: string; requestId: string | null }>();
+  for (const filePath of legacyFiles) {
+    for (const entry of await readJsonl<any>(filePath)) {
+      if (shouldSkip(entry)) continue;
+      const key = extractMessageKey(entry);
+      const legacyId = key ? legacyEventId(entry, filePath) : null;
+      if (key && legacyId) legacyKeys.set(legacyId, key);
+    }
+  }
+
+  const result: UsageEvent[] = [];
+  const byMessage = new Map<string, number>();
+  const mergedIndexes = new Set<number>();
+  const duplicates: UsageEvent[] = [];
+  let rekeyed = 0;
+  let unmatched = 0;
+
+  for (const event of events) {
+    if (event.source !== "claude_code") {
+      result.push(event);
+      continue;
+    }
+
+    let keyed = event;
+    if (!event.meta?.messageId) {
+      const key = legacyKeys.get(event.id);
+      if (!key) {
+        unmatched++;
+        result.push(event);
+        continue;
+      }
+      keyed = {
+        ...event,
+        id: messageEventId(key.messageId, key.requestId),
+        meta: { ...event.meta, messageId: key.messageId, requestId: key.requestId },
+      };
+      rekeyed++;
+    }
+
+    const index = byMessage.get(keyed.id);
+    if (index === undefined) {
+      byMessage.set(keyed.id, result.length);
+      result.push(keyed);
+      continue;
+    }
+
+    const current = result[index];
+    const merged = mergeClaudeEvents(current, keyed);
+    duplicates.push(merged.ts === current.ts ? keyed : current);
+    result[index] = merged;
+    mergedIndexes.add(index);
+  }
+
+  for (const index of mergedIndexes) {
+    result[index] = recost(result[index]);
+  }
+
+  return { events: result, duplicates, rekeyed, unmatched };
+}
+
+/**
+ * Re-resolve the project of stored Claude Code events from the cwd and
+ * gitBranch recorded next to their message in the transcript. Returns the
+ * number of events whose project changed.
+ */
+export async function attributeClaudeEvents(
+  config: ThinktaxConfig,
+  events: UsageEvent[]
+): Promise<number> {
+  const resolveProject = createProjectResolver(config);
+  const contexts = new Map<string, Map<string, EntryContext>>();
+  let attributed = 0;
+
+  for (const event of events) {
+    if (event.source !== "claude_code") continue;
+    const filePath = event.meta?.file;
+    const messageId = event.meta?.messageId;
+    if (typeof filePath !== "string" || typeof messageId !== "string") continue;
+
+    let fileContexts = contexts.get(filePath);
+    if (!fileContexts) {
+      fileContexts = new Map();
+      let context: EntryContext = { cwd: null, gitBranch: null };
+      for (const entry of await readJsonl<any>(filePath)) {
+        context = nextContext(entry, context);
+        const key = extractMessageKey(entry);
+        if (key && !fileContexts.has(key.messageId)) fileContexts.set(key.messageId, context);
+      }
+      contexts.set(filePath, fileContexts);
+    }
+
+    const context = fileContexts.get(messageId);
+    if (!context?.cwd) continue;
+    const project = resolveProject(path.basename(path.dirname(filePath)), context.cwd);
+    event.meta = { ...event.meta, cwd: context.cwd, gitBranch: context.gitBranch };
+    if (project.id !== event.project.id || project.name !== event.project.name) {
+      event.project = project;
+      attributed++;
+    }
+  }
+
+  return attributed;
+}
+
+/** Carried between incremental reads of a transcript. */
+interface TranscriptState {
+  context: EntryContext;
+  sessionId: string | null;
+}
+
+/**
+ * Collect usage from Claude Code transcripts. With `cursors`, only lines
+ * appended since the last run are read; a message whose lines straddle two
+ * runs keeps the usage from its first line, as the stored event wins.
+ */
+export async function collectClaude(
+  config: ThinktaxConfig,
+  cursors?: FileCursors
 ): Promise<UsageEvent[]> {
   const projectsDir = resolveClaudeProjectsDir(config);
   debug("Claude: scanning", projectsDir);
@@ -129,37 +364,46 @@ export async function collectClaude(
   const pattern = path.join(projectsDir, "**/*.jsonl").replace(/\\/g, "/");
   const files = await fg(pattern, { onlyFiles: true, dot: true });
   debug("Claude: found", files.length, "JSONL files");
+  if (cursors) retainCursors(cursors, files);
 
+  const resolveProject = createProjectResolver(config);
   const events: UsageEvent[] = [];
+  const byMessage = new Map<string, number>();
+  let merged = 0;
 
   for (const filePath of files) {
-    const entries = await readJsonl<any>(filePath);
+    const chunk = readJsonlSince<any, TranscriptState>(filePath, cursors?.[filePath]);
+    const entries = chunk.entries;
     const instanceId = path.basename(path.dirname(filePath));
-    const project = resolveProjectFromMapping(config, instanceId, null);
+    let context: EntryContext = chunk.cursor.state?.context ?? { cwd: null, gitBranch: null };
     let fileEvents = 0;
 
     // Resolve billing mode for this session file
-    const sessionId = extractSessionId(entries);
+    const sessionId = chunk.cursor.state?.sessionId ?? extractSessionId(entries);
     let billing: BillingMode | "estimate" = defaultBilling;
     if (sessionId && billingRegistry.has(sessionId)) {
       billing = billingRegistry.get(sessionId)!;
     }
 
     for (const entry of entries) {
+      context = nextContext(entry, context);
       if (shouldSkip(entry)) continue;
       const usage = extractUsage(entry);
       if (!usage) continue;
       const ts = extractTimestamp(entry);
       const model = extractModel(entry);
+      const key = extractMessageKey(entry);
 
       const event: UsageEvent = {
-        id: createEventId({
-          source: "claude_code",
-          ts,
-          model,
-          tokens: usage,
-          instanceId,
-        }),
+        id: key
+          ? messageEventId(key.messageId, key.requestId)
+          : createEventId({
+              source: "claude_code",
+              ts,
+              model,
+              tokens: usage,
+              instanceId,
+            }),
         ts,
         source: "claude_code",
         provider: "anthropic",
@@ -171,22 +415,39 @@ export async function collectClaude(
           cache_read: usage.cacheRead,
         },
         cost: emptyCost(),
-        project: project ?? emptyProject(),
+        project: resolveProject(instanceId, context.cwd),
+        session: sessionId ?? path.basename(filePath, ".jsonl"),
         meta: {
           file: filePath,
           type: entry?.type ?? null,
           billing,
+          cwd: context.cwd,
+          gitBranch: context.gitBranch,
+          ...extractPricingSignals(entry, usage),
+          ...(key ? { messageId: key.messageId, requestId: key.requestId } : {}),
         },
       };
 
+      // One event per assistant message, however many lines repeat it.
+      const index = byMessage.get(event.id);
+      if (index !== undefined) {
+        events[index] = mergeClaudeEvents(events[index], event);
+        merged++;
+        continue;
+      }
+      if (key) byMessage.set(event.id, events.length);
+
       events.push(event);
       fileEvents++;
     }
 
+    if (cursors) cursors[filePath] = { ...chunk.cursor, state: { context, sessionId } };
     if (fileEvents > 0) {
       debug("Claude:", fileEvents, "events from", path.basename(filePath), "billing:", billing);
     }
   }
 
+  if (merged > 0) debug("Claude: merged", merged, "repeated message lines");
+
   return events;
 }
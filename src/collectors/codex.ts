@@ -7,7 +7,7 @@ import {
   emptyCost,
   createEventId,
 } from "../core/events.js";
-import { readJsonl } from "../core/events.js";
+import { FileCursors, readJsonlSince, retainCursors } from "../core/cursors.js";
 import { findGitRoot, resolveProjectFromMapping } from "../core/projects.js";
 import { debug } from "../core/logger.js";
 
@@ -109,8 +109,18 @@ function extractModel(entry: any): string | null {
   return entry?.model ?? entry?.response?.model ?? entry?.data?.model ?? null;
 }
 
+/** Carried between incremental reads of a session file. */
+interface SessionState {
+  lastTotalUsage: UsageSnapshot | null;
+  lastProjectRoot: string | null;
+  instanceId: string | null;
+  lastModel: string | null;
+  lastServiceTier: string | null;
+}
+
 export async function collectCodex(
-  config: ThinktaxConfig
+  config: ThinktaxConfig,
+  cursors?: FileCursors
 ): Promise<UsageEvent[]> {
   const codexHome = resolveCodexHome(config);
   const sessionsDir = path.join(codexHome, "sessions");
@@ -119,15 +129,21 @@ export async function collectCodex(
   const pattern = path.join(sessionsDir, "**/*.jsonl").replace(/\\/g, "/");
   const files = await fg(pattern, { onlyFiles: true, dot: true });
   debug("Codex: found", files.length, "session files");
+  if (cursors) retainCursors(cursors, files);
 
   const events: UsageEvent[] = [];
 
   for (const filePath of files) {
-    const entries = await readJsonl<any>(filePath);
-    let lastTotalUsage: UsageSnapshot | null = null;
-    let lastProjectRoot: string | null = null;
-    let instanceId: string | null = null;
-    let lastModel: string | null = null;
+    const chunk = readJsonlSince<any, SessionState>(filePath, cursors?.[filePath]);
+    const entries = chunk.entries;
+    let { lastTotalUsage, lastProjectRoot, instanceId, lastModel, lastServiceTier }: SessionState =
+      chunk.cursor.state ?? {
+        lastTotalUsage: null,
+        lastProjectRoot: null,
+        instanceId: null,
+        lastModel: null,
+        lastServiceTier: null,
+      };
 
     for (const entry of entries) {
       const payload = entry?.payload;
@@ -150,6 +166,11 @@ export async function collectCodex(
         lastModel = String(payload.model);
       }
 
+      const serviceTier = payload?.service_tier ?? entry?.service_tier;
+      if (typeof serviceTier === "string" && serviceTier) {
+        lastServiceTier = serviceTier;
+      }
+
       const usage = normalizeUsage(entry);
       if (!usage) continue;
 
@@ -220,14 +241,25 @@ export async function collectCodex(
         },
         cost: emptyCost(),
         project,
+        session: instanceId ?? path.basename(filePath, ".jsonl"),
         meta: {
           file: filePath,
           session: instanceId,
+          // OpenAI input token counts already include cached input
+          prompt_tokens: delta.input,
+          service_tier: lastServiceTier,
         },
       };
 
       events.push(event);
     }
+
+    if (cursors) {
+      cursors[filePath] = {
+        ...chunk.cursor,
+        state: { lastTotalUsage, lastProjectRoot, instanceId, lastModel, lastServiceTier },
+      };
+    }
   }
 
   return events;
@@ -33,7 +33,7 @@ interface WorkspaceActivityMap {
   workspaces: Map<string, WorkspaceActivity>; // workspaceId → activity
 }
 
-function getCursorWorkspaceStoragePath(): string | null {
+export function getCursorWorkspaceStoragePath(): string | null {
   const home = process.env.HOME;
   if (!home) return null;
 
@@ -161,6 +161,7 @@ interface CursorSpendRow {
   cacheWrite: number;
   cacheRead: number;
   reportedUsd: number | null;
+  session?: string | null;
   meta: Record<string, unknown>;
 }
 
@@ -582,7 +583,7 @@ async function tryReadCursorLocal(
     const Database = mod.default;
     const db = new Database(dbPath, { readonly: true });
     const rows = db
-      .prepare(
+      .prepare<{ key: string; value: string }>(
         "SELECT key, value FROM ItemTable WHERE key LIKE '%cursor%' OR key LIKE '%usage%'"
       )
       .all();
@@ -664,6 +665,7 @@ async function estimateCursorFromTranscripts(
         cacheWrite: 0,
         cacheRead: 0,
         reportedUsd: null,
+        session: path.basename(filePath, path.extname(filePath)),
         meta: {
           file: filePath,
           mode: "local_transcript_estimate",
@@ -742,6 +744,7 @@ export async function collectCursor(
         reported_usd: row.reportedUsd,
       },
       project,
+      session: row.session ?? null,
       meta: row.meta,
     };
 
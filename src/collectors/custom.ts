@@ -0,0 +1,264 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import fg from "fast-glob";
+import { DateTime } from "luxon";
+import type { CustomSourceConfig, ThinktaxConfig } from "../core/config.js";
+import {
+  UsageEvent,
+  UsageProject,
+  UsageProvider,
+  emptyCost,
+  createEventId,
+} from "../core/events.js";
+import { FileCursors, readJsonlSince, retainCursors } from "../core/cursors.js";
+import { findGitRoot, resolveProjectFromMapping } from "../core/projects.js";
+import { debug, warn } from "../core/logger.js";
+
+const PROVIDERS: UsageProvider[] = ["anthropic", "openai", "google", "cursor", "moonshot"];
+
+/** Map model prefixes to thinktax UsageProvider. */
+function inferProvider(model: string | null): UsageProvider {
+  const m = (model ?? "").toLowerCase();
+  if (m.startsWith("claude")) return "anthropic";
+  if (m.startsWith("gemini")) return "google";
+  if (m.startsWith("moonshot") || m.startsWith("kimi")) return "moonshot";
+  return "openai";
+}
+
+function expandHome(pattern: string): string {
+  return pattern.startsWith("~/") ? path.join(os.homedir(), pattern.slice(2)) : pattern;
+}
+
+/** Read a dotted path such as "usage.input_tokens" from a row. */
+export function readField(row: unknown, fieldPath: string | undefined): unknown {
+  if (!fieldPath) return undefined;
+  if (row && typeof row === "object" && fieldPath in (row as Record<string, unknown>)) {
+    return (row as Record<string, unknown>)[fieldPath];
+  }
+  let value: unknown = row;
+  for (const part of fieldPath.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function readNumber(row: unknown, fieldPath: string | undefined): number {
+  const value = readField(row, fieldPath);
+  const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : 0;
+}
+
+function readString(row: unknown, fieldPath: string | undefined): string | null {
+  const value = readField(row, fieldPath);
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+/** ISO strings, or epoch seconds or milliseconds. */
+function readTimestamp(row: unknown, fieldPath: string): string | null {
+  const value = readField(row, fieldPath);
+  let dt: DateTime | null = null;
+  const numeric = typeof value === "string" && /^\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+  if (typeof numeric === "number") {
+    dt = numeric < 1e12 ? DateTime.fromSeconds(numeric) : DateTime.fromMillis(numeric);
+  } else if (typeof value === "string") {
+    dt = DateTime.fromISO(value);
+    if (!dt.isValid) dt = DateTime.fromSQL(value);
+  }
+  return dt?.isValid ? dt.toISO() : null;
+}
+
+/** Parse CSV with a header row; quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(raw: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quoted) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && raw[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const rows = records.filter((r) => r.some((value) => value.trim() !== ""));
+  const [header, ...body] = rows;
+  if (!header) return [];
+  return body.map((values) =>
+    Object.fromEntries(header.map((name, index) => [name.trim(), values[index] ?? ""]))
+  );
+}
+
+/** Rows of a whole CSV or JSON file. */
+function readRows(source: CustomSourceConfig, filePath: string): unknown[] {
+  const raw = fs.readFileSync(filePath, "utf8");
+  if (source.format === "csv") return parseCsv(raw);
+
+  try {
+    const parsed = JSON.parse(raw);
+    const rows = source.rows ? readField(parsed, source.rows) : parsed;
+    return Array.isArray(rows) ? rows : [];
+  } catch {
+    warn(`Custom source ${source.name}: could not parse ${filePath}`);
+    return [];
+  }
+}
+
+function resolveProject(config: ThinktaxConfig, value: string | null): UsageProject {
+  if (value && path.isAbsolute(value)) {
+    return resolveProjectFromMapping(config, null, findGitRoot(value) ?? value);
+  }
+  return resolveProjectFromMapping(config, value, null);
+}
+
+function resolveProvider(
+  source: CustomSourceConfig,
+  value: string | null,
+  model: string | null
+): UsageProvider {
+  const candidate = (value ?? source.provider ?? "").toLowerCase();
+  return (PROVIDERS as string[]).includes(candidate)
+    ? (candidate as UsageProvider)
+    : inferProvider(model);
+}
+
+export function rowToEvent(
+  config: ThinktaxConfig,
+  source: CustomSourceConfig,
+  row: unknown,
+  filePath: string,
+  index: number
+): UsageEvent | null {
+  const { fields } = source;
+  const ts = readTimestamp(row, fields.timestamp);
+  if (!ts) return null;
+
+  const tokens = {
+    in: readNumber(row, fields.input),
+    out: readNumber(row, fields.output),
+    cache_write: readNumber(row, fields.cacheWrite),
+    cache_read: readNumber(row, fields.cacheRead),
+  };
+  const reported = fields.cost ? readField(row, fields.cost) : undefined;
+  const reportedUsd =
+    reported === undefined || reported === null || reported === ""
+      ? null
+      : readNumber(row, fields.cost);
+  if (
+    tokens.in === 0 &&
+    tokens.out === 0 &&
+    tokens.cache_write === 0 &&
+    tokens.cache_read === 0 &&
+    !reportedUsd
+  ) {
+    return null;
+  }
+
+  const model = readString(row, fields.model);
+  const session = readString(row, fields.session);
+  const rowId = readString(row, fields.id);
+
+  return {
+    // Without an id field, identical rows are told apart by where they are.
+    id: createEventId(
+      rowId
+        ? { source: "custom", name: source.name, id: rowId }
+        : { source: "custom", name: source.name, file: filePath, index, row }
+    ),
+    ts,
+    source: "custom",
+    provider: resolveProvider(source, readString(row, fields.provider), model),
+    model,
+    tokens,
+    cost: { ...emptyCost(), reported_usd: reportedUsd },
+    project: resolveProject(config, readString(row, fields.project)),
+    session,
+    meta: {
+      customSource: source.name,
+      file: filePath,
+      session,
+    },
+  };
+}
+
+/**
+ * Collect rows from every configured custom source. With `cursors`, JSONL
+ * files are read from where the last run stopped; JSON and CSV files are
+ * read whole.
+ */
+export async function collectCustomSources(
+  config: ThinktaxConfig,
+  cursors?: FileCursors
+): Promise<UsageEvent[]> {
+  const sources = config.sources?.custom ?? [];
+  const events: UsageEvent[] = [];
+  const cursorKeys: string[] = [];
+
+  for (const source of sources) {
+    if (!source.name || !source.glob || !source.fields?.timestamp) {
+      warn("Custom source needs name, glob and fields.timestamp; skipped", source.name ?? "");
+      continue;
+    }
+
+    const pattern = expandHome(source.glob).replace(/\\/g, "/");
+    const files = await fg(pattern, { onlyFiles: true, dot: true });
+    debug(`Custom source ${source.name}: found`, files.length, "files");
+
+    let sourceEvents = 0;
+    for (const filePath of files) {
+      let rows: unknown[];
+      // Row numbers carried over from earlier reads, so appended rows keep counting.
+      let firstIndex = 0;
+      if (source.format === "jsonl") {
+        // Sources may share files; each keeps its own position.
+        const key = `${source.name}:${filePath}`;
+        cursorKeys.push(key);
+        const chunk = readJsonlSince<unknown, number>(filePath, cursors?.[key]);
+        rows = chunk.entries;
+        firstIndex = chunk.cursor.state ?? 0;
+        if (cursors) cursors[key] = { ...chunk.cursor, state: firstIndex + rows.length };
+      } else {
+        rows = readRows(source, filePath);
+      }
+
+      rows.forEach((row, offset) => {
+        const event = rowToEvent(config, source, row, filePath, firstIndex + offset);
+        if (!event) return;
+        events.push(event);
+        sourceEvents++;
+      });
+    }
+    debug(`Custom source ${source.name}:`, sourceEvents, "events");
+  }
+
+  if (cursors) retainCursors(cursors, cursorKeys);
+  return events;
+}
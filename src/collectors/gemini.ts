@@ -0,0 +1,353 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import fg from "fast-glob";
+import { DateTime } from "luxon";
+import { ThinktaxConfig, resolveGeminiHome } from "../core/config.js";
+import {
+  UsageEvent,
+  UsageProject,
+  emptyCost,
+  createEventId,
+} from "../core/events.js";
+import { FileCursor, FileCursors, retainCursors } from "../core/cursors.js";
+import { findGitRoot, resolveProjectFromMapping } from "../core/projects.js";
+import { debug } from "../core/logger.js";
+
+interface GeminiTokens {
+  input: number;
+  output: number;
+  cached: number;
+  thoughts: number;
+  tool: number;
+}
+
+/**
+ * Gemini reports prompt tokens including cached ones, and bills thoughts as
+ * output and tool-use prompt tokens as input.
+ */
+function normalizeTokens(tokens: GeminiTokens): {
+  in: number;
+  out: number;
+  cache_read: number;
+  prompt: number;
+} {
+  return {
+    in: Math.max(tokens.input - tokens.cached, 0) + tokens.tool,
+    out: tokens.output + tokens.thoughts,
+    cache_read: tokens.cached,
+    prompt: tokens.input + tokens.tool,
+  };
+}
+
+function isEmpty(tokens: GeminiTokens): boolean {
+  return tokens.input === 0 && tokens.output === 0 && tokens.cached === 0 && tokens.thoughts === 0;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toStringOrNull(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toTimestamp(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const dt = DateTime.fromISO(raw);
+  return dt.isValid ? dt.toISO() : null;
+}
+
+/**
+ * Parse a file of JSON objects written back to back, pretty-printed or one
+ * per line, as Gemini CLI's local telemetry exporter does.
+ */
+export function parseJsonObjects(raw: string): unknown[] {
+  const objects: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0 && start >= 0) {
+        try {
+          objects.push(JSON.parse(raw.slice(start, i + 1)));
+        } catch {
+          // Skip malformed object.
+        }
+        start = -1;
+      }
+    }
+  }
+
+  return objects;
+}
+
+function readJsonFile(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function isChat(value: unknown): value is JsonObject & { messages: unknown[] } {
+  return isObject(value) && Array.isArray(value.messages);
+}
+
+function isGeminiMessage(value: unknown): value is JsonObject & { tokens: JsonObject } {
+  return isObject(value) && value.type === "gemini" && isObject(value.tokens);
+}
+
+/** Chat files and the telemetry log are rewritten whole; skip them until they change. */
+function isUnchanged(cursor: FileCursor | undefined, stats: fs.Stats): boolean {
+  return (
+    cursor !== undefined &&
+    cursor.ino === stats.ino &&
+    cursor.size === stats.size &&
+    cursor.mtimeMs === stats.mtimeMs
+  );
+}
+
+function wholeFileCursor(stats: fs.Stats, state?: unknown): FileCursor {
+  return { ino: stats.ino, size: stats.size, mtimeMs: stats.mtimeMs, offset: stats.size, state };
+}
+
+/**
+ * Gemini CLI keeps per-project data under tmp/<sha256 of project root>. Map
+ * hashes back to roots using the `.project_root` marker newer versions write
+ * and any roots we know about from config.
+ */
+function buildProjectRoots(config: ThinktaxConfig, geminiHome: string): Map<string, string> {
+  const roots = new Map<string, string>();
+  const candidates = [
+    ...(config.gemini?.projectRoots ?? []),
+    ...(config.projects?.mappings ?? []).map((mapping) => mapping.root),
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const hash = crypto.createHash("sha256").update(candidate).digest("hex");
+    roots.set(hash, candidate);
+  }
+
+  const tmpDir = path.join(geminiHome, "tmp");
+  if (fs.existsSync(tmpDir)) {
+    for (const hash of fs.readdirSync(tmpDir)) {
+      const marker = path.join(tmpDir, hash, ".project_root");
+      if (!fs.existsSync(marker)) continue;
+      const root = fs.readFileSync(marker, "utf8").trim();
+      if (root) roots.set(hash, root);
+    }
+  }
+
+  return roots;
+}
+
+function resolveProject(
+  config: ThinktaxConfig,
+  projectHash: string | null,
+  root: string | null
+): UsageProject {
+  const gitRoot = root ? findGitRoot(root) ?? root : null;
+  return resolveProjectFromMapping(config, projectHash, gitRoot);
+}
+
+interface SessionContext {
+  sessionId: string | null;
+  projectHash: string | null;
+  project: UsageProject;
+}
+
+function collectChats(
+  config: ThinktaxConfig,
+  projectRoots: Map<string, string>,
+  sessions: Map<string, SessionContext>,
+  files: string[],
+  cursors?: FileCursors
+): UsageEvent[] {
+  const events: UsageEvent[] = [];
+
+  for (const filePath of files) {
+    const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+    if (!stats) continue;
+    const cursor = cursors?.[filePath];
+    if (isUnchanged(cursor, stats)) {
+      // Keep its session known so telemetry for it isn't counted again.
+      const known = cursor?.state as SessionContext | undefined;
+      if (known?.sessionId) sessions.set(known.sessionId, known);
+      continue;
+    }
+
+    const chat = readJsonFile(filePath);
+    if (!isChat(chat)) continue;
+
+    const projectHash =
+      toStringOrNull(chat.projectHash) ?? path.basename(path.dirname(path.dirname(filePath)));
+    const root =
+      toStringOrNull(chat.projectRoot) ??
+      toStringOrNull(chat.cwd) ??
+      projectRoots.get(projectHash) ??
+      null;
+    const sessionId = toStringOrNull(chat.sessionId);
+    const project = resolveProject(config, projectHash, root);
+    const context: SessionContext = { sessionId, projectHash, project };
+    if (sessionId) sessions.set(sessionId, context);
+    if (cursors) cursors[filePath] = wholeFileCursor(stats, context);
+
+    for (const message of chat.messages) {
+      if (!isGeminiMessage(message)) continue;
+      const raw: GeminiTokens = {
+        input: toNumber(message.tokens.input),
+        output: toNumber(message.tokens.output),
+        cached: toNumber(message.tokens.cached),
+        thoughts: toNumber(message.tokens.thoughts),
+        tool: toNumber(message.tokens.tool),
+      };
+      if (isEmpty(raw)) continue;
+      const ts = toTimestamp(message.timestamp) ?? toTimestamp(chat.lastUpdated);
+      if (!ts) continue;
+      const tokens = normalizeTokens(raw);
+      const model = toStringOrNull(message.model);
+      const messageId = toStringOrNull(message.id);
+
+      events.push({
+        id: createEventId({
+          source: "gemini_cli",
+          session: sessionId,
+          message: messageId,
+          ts,
+          model,
+        }),
+        ts,
+        source: "gemini_cli",
+        provider: "google",
+        model,
+        tokens: { in: tokens.in, out: tokens.out, cache_write: 0, cache_read: tokens.cache_read },
+        cost: emptyCost(),
+        project,
+        session: sessionId,
+        meta: {
+          file: filePath,
+          session: sessionId,
+          messageId,
+          prompt_tokens: tokens.prompt,
+        },
+      });
+    }
+  }
+
+  return events;
+}
+
+function collectTelemetry(
+  config: ThinktaxConfig,
+  telemetryFile: string,
+  sessions: Map<string, SessionContext>,
+  cursors?: FileCursors
+): UsageEvent[] {
+  const stats = fs.statSync(telemetryFile, { throwIfNoEntry: false });
+  if (!stats || isUnchanged(cursors?.[telemetryFile], stats)) return [];
+  const records = parseJsonObjects(fs.readFileSync(telemetryFile, "utf8"));
+  debug("Gemini: read", records.length, "telemetry records");
+  if (cursors) cursors[telemetryFile] = wholeFileCursor(stats);
+
+  const events: UsageEvent[] = [];
+
+  for (const record of records) {
+    const attributes = isObject(record) && isObject(record.attributes) ? record.attributes : record;
+    if (!isObject(attributes) || attributes["event.name"] !== "gemini_cli.api_response") continue;
+
+    // Sessions with a chat recording are already counted from it.
+    const sessionId = toStringOrNull(attributes["session.id"]);
+    if (sessionId && sessions.has(sessionId)) continue;
+
+    const raw: GeminiTokens = {
+      input: toNumber(attributes.input_token_count),
+      output: toNumber(attributes.output_token_count),
+      cached: toNumber(attributes.cached_content_token_count),
+      thoughts: toNumber(attributes.thoughts_token_count),
+      tool: toNumber(attributes.tool_token_count),
+    };
+    if (isEmpty(raw)) continue;
+    const ts = toTimestamp(attributes["event.timestamp"]);
+    if (!ts) continue;
+    const tokens = normalizeTokens(raw);
+    const model = toStringOrNull(attributes.model);
+    const promptId = toStringOrNull(attributes.prompt_id);
+
+    events.push({
+      id: createEventId({
+        source: "gemini_cli",
+        session: sessionId,
+        prompt: promptId,
+        ts,
+        model,
+        tokens: raw,
+      }),
+      ts,
+      source: "gemini_cli",
+      provider: "google",
+      model,
+      tokens: { in: tokens.in, out: tokens.out, cache_write: 0, cache_read: tokens.cache_read },
+      cost: emptyCost(),
+      project: resolveProjectFromMapping(config, null, null),
+      session: sessionId,
+      meta: {
+        file: telemetryFile,
+        session: sessionId,
+        promptId,
+        prompt_tokens: tokens.prompt,
+      },
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Collect usage from Gemini CLI chat recordings and its telemetry log. With
+ * `cursors`, files that haven't changed since the last run are skipped.
+ */
+export async function collectGemini(
+  config: ThinktaxConfig,
+  cursors?: FileCursors
+): Promise<UsageEvent[]> {
+  const geminiHome = resolveGeminiHome(config);
+  debug("Gemini: scanning", geminiHome);
+
+  const pattern = path.join(geminiHome, "tmp", "*", "chats", "*.json").replace(/\\/g, "/");
+  const files = await fg(pattern, { onlyFiles: true, dot: true });
+  debug("Gemini: found", files.length, "chat files");
+  const telemetryFile = config.gemini?.telemetryFile ?? path.join(geminiHome, "telemetry.log");
+  if (cursors) retainCursors(cursors, [...files, telemetryFile]);
+
+  const projectRoots = buildProjectRoots(config, geminiHome);
+  const sessions = new Map<string, SessionContext>();
+  const chatEvents = collectChats(config, projectRoots, sessions, files, cursors);
+  const telemetryEvents = collectTelemetry(config, telemetryFile, sessions, cursors);
+  debug("Gemini:", chatEvents.length, "chat events,", telemetryEvents.length, "telemetry events");
+
+  return [...chatEvents, ...telemetryEvents];
+}
@@ -5,8 +5,8 @@ import {
   UsageProvider,
   emptyCost,
   createEventId,
-  readJsonl,
 } from "../core/events.js";
+import { FileCursors, readJsonlSince, retainCursors } from "../core/cursors.js";
 import { resolveGleanUsageDir } from "../core/config.js";
 import { debug } from "../core/logger.js";
 import type { ThinktaxConfig } from "../core/config.js";
@@ -35,7 +35,8 @@ interface GleanEntry {
 }
 
 export async function collectGlean(
-  config: ThinktaxConfig
+  config: ThinktaxConfig,
+  cursors?: FileCursors
 ): Promise<UsageEvent[]> {
   const usageDir = resolveGleanUsageDir(config);
   debug("Glean: scanning", usageDir);
@@ -43,11 +44,13 @@ export async function collectGlean(
   const pattern = path.join(usageDir, "**/*.jsonl").replace(/\\/g, "/");
   const files = await fg(pattern, { onlyFiles: true, dot: true });
   debug("Glean: found", files.length, "JSONL files");
+  if (cursors) retainCursors(cursors, files);
 
   const events: UsageEvent[] = [];
 
   for (const filePath of files) {
-    const entries = await readJsonl<GleanEntry>(filePath);
+    const chunk = readJsonlSince<GleanEntry>(filePath, cursors?.[filePath]);
+    const entries = chunk.entries;
     let fileEvents = 0;
 
     for (const entry of entries) {
@@ -83,6 +86,8 @@ export async function collectGlean(
           name: "Glean",
           root: null,
         },
+        // Glean logs carry no session id; its title is the closest grouping.
+        session: entry.session_title ?? null,
         meta: {
           file: filePath,
           billing: "api",
@@ -97,6 +102,7 @@ export async function collectGlean(
       fileEvents++;
     }
 
+    if (cursors) cursors[filePath] = chunk.cursor;
     if (fileEvents > 0) {
       debug("Glean:", fileEvents, "events from", path.basename(filePath));
     }
@@ -7,8 +7,8 @@ import {
   UsageProvider,
   emptyCost,
   createEventId,
-  readJsonl,
 } from "../core/events.js";
+import { FileCursors, readJsonlSince, retainCursors } from "../core/cursors.js";
 import { debug } from "../core/logger.js";
 
 /** Map OpenClaw provider strings to thinktax UsageProvider. */
@@ -53,7 +53,8 @@ function extractTimestamp(entry: any): string {
 }
 
 export async function collectOpenClaw(
-  config: ThinktaxConfig
+  config: ThinktaxConfig,
+  cursors?: FileCursors
 ): Promise<UsageEvent[]> {
   const sessionsDir = resolveOpenClawSessionsDir(config);
   const billing = config.openclaw?.billing?.defaultMode ?? "estimate";
@@ -62,11 +63,13 @@ export async function collectOpenClaw(
   const pattern = path.join(sessionsDir, "**/*.jsonl").replace(/\\/g, "/");
   const files = await fg(pattern, { onlyFiles: true, dot: true });
   debug("OpenClaw: found", files.length, "JSONL files");
+  if (cursors) retainCursors(cursors, files);
 
   const events: UsageEvent[] = [];
 
   for (const filePath of files) {
-    const entries = await readJsonl<any>(filePath);
+    const chunk = readJsonlSince<any>(filePath, cursors?.[filePath]);
+    const entries = chunk.entries;
     const sessionId = path.basename(filePath, ".jsonl");
     let fileEvents = 0;
 
@@ -107,6 +110,7 @@ export async function collectOpenClaw(
           name: "OpenClaw",
           root: null,
         },
+        session: sessionId,
         meta: {
           file: filePath,
           sessionId,
@@ -119,6 +123,7 @@ export async function collectOpenClaw(
       fileEvents++;
     }
 
+    if (cursors) cursors[filePath] = chunk.cursor;
     if (fileEvents > 0) {
       debug("OpenClaw:", fileEvents, "events from", path.basename(filePath));
     }
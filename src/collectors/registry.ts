@@ -0,0 +1,238 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  ThinktaxConfig,
+  resolveApprenticeUsageDir,
+  resolveClaudeProjectsDir,
+  resolveCodexHome,
+  resolveCursorTeamUrl,
+  resolveGeminiHome,
+  resolveGleanUsageDir,
+  resolveOpenClawSessionsDir,
+  resolveReviewCrewHistoryDir,
+} from "../core/config.js";
+import type { FileCursors } from "../core/cursors.js";
+import type { UsageEvent, UsageSource } from "../core/events.js";
+import { warn } from "../core/logger.js";
+import { collectApprentice } from "./apprentice.js";
+import { collectClaude } from "./claude.js";
+import { collectCodex } from "./codex.js";
+import { collectCursor, getCursorWorkspaceStoragePath } from "./cursor.js";
+import { collectCustomSources } from "./custom.js";
+import { collectGemini } from "./gemini.js";
+import { collectGlean } from "./glean.js";
+import { collectOpenClaw } from "./openclaw.js";
+import { collectReviewCrew } from "./review-crew.js";
+
+export interface CollectorContext {
+  /** When this collector last ran, from the sync state. */
+  lastRun: string | null;
+  /** Per-file read positions; saved once the collected events are stored. */
+  cursors: FileCursors;
+}
+
+export interface CollectorHealth {
+  status: "ok" | "missing" | "error";
+  /** Where the collector reads from, or what is wrong. */
+  detail: string;
+}
+
+export interface Collector {
+  /** Key used by --only/--skip and in the sync state. */
+  name: string;
+  /** Display name for refresh output. */
+  label: string;
+  source: UsageSource;
+  /** Whether there is anything to collect; unconfigured collectors are skipped. */
+  isConfigured(config: ThinktaxConfig): boolean;
+  collect(config: ThinktaxConfig, ctx: CollectorContext): Promise<UsageEvent[]>;
+  health(config: ThinktaxConfig): CollectorHealth;
+  /** Directories `watch` reacts to; collectors without any are polled. */
+  watchPaths?(config: ThinktaxConfig): string[];
+  /** How often `watch` polls this collector, overriding --interval. */
+  pollMinutes?(config: ThinktaxConfig): number;
+}
+
+function directoryHealth(dir: string): CollectorHealth {
+  return fs.existsSync(dir)
+    ? { status: "ok", detail: dir }
+    : { status: "missing", detail: `${dir} not found` };
+}
+
+/** A collector that reads files under a single directory. */
+function directoryCollector(
+  name: string,
+  label: string,
+  source: UsageSource,
+  resolveDir: (config: ThinktaxConfig) => string,
+  collect: (config: ThinktaxConfig, cursors: FileCursors) => Promise<UsageEvent[]>
+): Collector {
+  return {
+    name,
+    label,
+    source,
+    isConfigured: (config) => fs.existsSync(resolveDir(config)),
+    collect: (config, ctx) => collect(config, ctx.cursors),
+    health: (config) => directoryHealth(resolveDir(config)),
+    watchPaths: (config) => [resolveDir(config)],
+  };
+}
+
+const cursorCollector: Collector = {
+  name: "cursor",
+  label: "Cursor",
+  source: "cursor_ide",
+  isConfigured: (config) => {
+    if (config.cursor?.dashboard || config.cursor?.team || config.cursor?.local) return true;
+    const storagePath = getCursorWorkspaceStoragePath();
+    return storagePath !== null && fs.existsSync(storagePath);
+  },
+  collect: (config) => collectCursor(config),
+  // The dashboard response is cached for this long anyway.
+  pollMinutes: (config) => config.cursor?.dashboard?.cacheTtlMinutes ?? 15,
+  health: (config) => {
+    if (config.cursor?.dashboard?.sessionToken) return { status: "ok", detail: "dashboard API" };
+    const teamUrl = resolveCursorTeamUrl(config);
+    if (teamUrl) return { status: "ok", detail: `team API (${teamUrl})` };
+    const storagePath = getCursorWorkspaceStoragePath();
+    if (!storagePath) return { status: "missing", detail: "unsupported platform" };
+    return directoryHealth(storagePath);
+  },
+};
+
+const customCollector: Collector = {
+  name: "custom",
+  label: "Custom",
+  source: "custom",
+  isConfigured: (config) => (config.sources?.custom ?? []).length > 0,
+  collect: (config, ctx) => collectCustomSources(config, ctx.cursors),
+  health: (config) => {
+    const names = (config.sources?.custom ?? []).map((source) => source.name);
+    return names.length > 0
+      ? { status: "ok", detail: names.join(", ") }
+      : { status: "missing", detail: "no [[sources.custom]] configured" };
+  },
+};
+
+export const builtinCollectors: Collector[] = [
+  directoryCollector("claude", "Claude", "claude_code", resolveClaudeProjectsDir, collectClaude),
+  directoryCollector(
+    "codex",
+    "Codex",
+    "codex_cli",
+    (config) => path.join(resolveCodexHome(config), "sessions"),
+    collectCodex
+  ),
+  directoryCollector("gemini", "Gemini", "gemini_cli", resolveGeminiHome, collectGemini),
+  cursorCollector,
+  directoryCollector("openclaw", "OpenClaw", "openclaw", resolveOpenClawSessionsDir, collectOpenClaw),
+  directoryCollector(
+    "apprentice",
+    "Apprentice",
+    "apprentice",
+    resolveApprenticeUsageDir,
+    collectApprentice
+  ),
+  directoryCollector("glean", "Glean", "glean", resolveGleanUsageDir, collectGlean),
+  directoryCollector(
+    "reviewCrew",
+    "ReviewCrew",
+    "review_crew",
+    resolveReviewCrewHistoryDir,
+    collectReviewCrew
+  ),
+  customCollector,
+];
+
+function isCollector(value: unknown): value is Collector {
+  const candidate = value as Collector | null;
+  return (
+    typeof candidate?.name === "string" &&
+    typeof candidate.collect === "function" &&
+    typeof candidate.isConfigured === "function" &&
+    typeof candidate.health === "function"
+  );
+}
+
+/**
+ * Import a plugin module. Its default export, or a `collectors` export, may be
+ * a collector or an array of them.
+ */
+async function loadPlugin(specifier: string, baseDir: string): Promise<Collector[]> {
+  const isPath = specifier.startsWith(".") || path.isAbsolute(specifier);
+  const url = isPath ? pathToFileURL(path.resolve(baseDir, specifier)).href : specifier;
+  const mod = await import(url);
+  const exported = mod.collectors ?? mod.default;
+  const candidates = Array.isArray(exported) ? exported : [exported];
+  const collectors = candidates.filter(isCollector);
+  if (collectors.length === 0) {
+    warn(`Collector plugin ${specifier} does not export any collectors`);
+  }
+  return collectors;
+}
+
+/** Built-in collectors followed by any plugins listed in `[collectors] plugins`. */
+export async function loadCollectors(
+  config: ThinktaxConfig,
+  configPath: string
+): Promise<Collector[]> {
+  const collectors = [...builtinCollectors];
+  const baseDir = path.dirname(configPath);
+
+  for (const specifier of config.collectors?.plugins ?? []) {
+    let plugins: Collector[];
+    try {
+      plugins = await loadPlugin(specifier, baseDir);
+    } catch (err) {
+      warn(`Could not load collector plugin ${specifier}:`, (err as Error).message);
+      continue;
+    }
+    for (const plugin of plugins) {
+      if (collectors.some((collector) => collector.name === plugin.name)) {
+        warn(`Collector plugin ${specifier}: "${plugin.name}" is already registered; skipped`);
+        continue;
+      }
+      collectors.push(plugin);
+    }
+  }
+
+  return collectors;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[-_]/g, "");
+}
+
+function parseNames(list: string | undefined): string[] {
+  return (list ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Apply comma-separated --only/--skip lists. Names match case-insensitively
+ * and ignore dashes, so "review-crew" selects "reviewCrew".
+ */
+export function selectCollectors(
+  collectors: Collector[],
+  options: { only?: string; skip?: string }
+): Collector[] {
+  const only = parseNames(options.only);
+  const skip = parseNames(options.skip);
+  const known = new Set(collectors.map((collector) => normalizeName(collector.name)));
+  const unknown = [...only, ...skip].filter((name) => !known.has(normalizeName(name)));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown collector: ${unknown.join(", ")} (available: ${collectors.map((c) => c.name).join(", ")})`
+    );
+  }
+
+  const onlySet = new Set(only.map(normalizeName));
+  const skipSet = new Set(skip.map(normalizeName));
+  return collectors.filter((collector) => {
+    const name = normalizeName(collector.name);
+    return (onlySet.size === 0 || onlySet.has(name)) && !skipSet.has(name);
+  });
+}
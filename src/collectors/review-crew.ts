@@ -123,6 +123,7 @@ export async function collectReviewCrew(
           mode: "reported",
         },
         project: { id: projectId, name: projectName, root: null },
+        session: projectId,
         meta: { ...baseMeta, role: "summarizer" },
       });
     }
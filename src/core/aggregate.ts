@@ -1,8 +1,9 @@
-import fs from "node:fs";
-import path from "node:path";
 import { DateTime } from "luxon";
-import { readJsonl, UsageEvent, UsageProvider } from "./events.js";
-import { getPaths } from "./paths.js";
+import { UsageEvent, UsageProvider } from "./events.js";
+import { isGuessedMatch } from "./pricing.js";
+import { periodStart } from "./ranges.js";
+import { listEventDays, queryEvents } from "./storage.js";
+import { eventDimensions } from "./storage-backend.js";
 
 export interface Totals {
   count: number;
@@ -16,6 +17,8 @@ export interface Totals {
   unknown_cost: number;
   subscription_count: number;
   subscription_saved_usd: number;
+  /** Events priced through a prefix or substring match rather than their own entry. */
+  guessed_count: number;
 }
 
 export interface SummaryBreakdowns {
@@ -26,6 +29,20 @@ export interface SummaryBreakdowns {
   billing: Record<string, Totals>;
 }
 
+export type BreakdownKey = keyof SummaryBreakdowns;
+
+export const BREAKDOWN_KEYS: BreakdownKey[] = [
+  "provider",
+  "project",
+  "model",
+  "source",
+  "billing",
+];
+
+export function isBreakdownKey(value: string): value is BreakdownKey {
+  return (BREAKDOWN_KEYS as string[]).includes(value);
+}
+
 export interface Summary {
   timezone: string;
   from: string;
@@ -47,10 +64,11 @@ export function emptyTotals(): Totals {
     unknown_cost: 0,
     subscription_count: 0,
     subscription_saved_usd: 0,
+    guessed_count: 0,
   };
 }
 
-function addTotals(target: Totals, event: UsageEvent): void {
+export function addTotals(target: Totals, event: UsageEvent): void {
   target.count += 1;
   target.tokens_in += event.tokens.in;
   target.tokens_out += event.tokens.out;
@@ -66,10 +84,32 @@ function addTotals(target: Totals, event: UsageEvent): void {
     target.subscription_count += 1;
     target.subscription_saved_usd += event.cost.estimated_usd ?? 0;
   }
+  if (isGuessedMatch(event.cost.pricing_match)) {
+    target.guessed_count += 1;
+  }
+}
+
+export function mergeTotals(target: Totals, source: Totals): void {
+  target.count += source.count;
+  target.tokens_in += source.tokens_in;
+  target.tokens_out += source.tokens_out;
+  target.cache_write += source.cache_write;
+  target.cache_read += source.cache_read;
+  target.reported_usd += source.reported_usd;
+  target.estimated_usd += source.estimated_usd;
+  target.final_usd += source.final_usd;
+  target.unknown_cost += source.unknown_cost;
+  target.subscription_count += source.subscription_count;
+  target.subscription_saved_usd += source.subscription_saved_usd;
+  target.guessed_count += source.guessed_count ?? 0;
 }
 
-function bucketKey(value: string | null, fallback: string): string {
-  return value && value.length > 0 ? value : fallback;
+/** The bucket an event falls into for a given breakdown, as shown in reports. */
+export function eventBreakdownValue(
+  event: UsageEvent,
+  key: BreakdownKey
+): string {
+  return eventDimensions(event)[key];
 }
 
 function addBreakdown(
@@ -101,16 +141,9 @@ export function aggregateEvents(
     const eventTime = DateTime.fromISO(event.ts).setZone(timezone);
     if (eventTime < from || eventTime > to) continue;
     addTotals(totals, event);
-    addBreakdown(breakdowns.provider, event.provider, event);
-    addBreakdown(breakdowns.source, event.source, event);
-    addBreakdown(breakdowns.model, bucketKey(event.model, "unknown"), event);
-    addBreakdown(
-      breakdowns.project,
-      bucketKey(event.project.name ?? event.project.id, "unassigned"),
-      event
-    );
-    const billingMode = (event.meta?.billing as string) ?? "estimate";
-    addBreakdown(breakdowns.billing, billingMode, event);
+    for (const key of BREAKDOWN_KEYS) {
+      addBreakdown(breakdowns[key], eventBreakdownValue(event, key), event);
+    }
   }
 
   return {
@@ -122,85 +155,163 @@ export function aggregateEvents(
   };
 }
 
-export async function loadEventsForRange(
+/** Combine summaries of disjoint windows into one covering from..to. */
+export function mergeSummaries(
+  summaries: Summary[],
   timezone: string,
   from: DateTime,
   to: DateTime
-): Promise<UsageEvent[]> {
-  const { eventsDir } = getPaths();
-  const events: UsageEvent[] = [];
-
-  if (!fs.existsSync(eventsDir)) return events;
+): Summary {
+  const merged = aggregateEvents([], timezone, from, to);
+  for (const summary of summaries) {
+    mergeTotals(merged.totals, summary.totals);
+    for (const key of BREAKDOWN_KEYS) {
+      for (const [bucket, totals] of Object.entries(summary.breakdowns[key])) {
+        const target = merged.breakdowns[key][bucket] ?? emptyTotals();
+        mergeTotals(target, totals);
+        merged.breakdowns[key][bucket] = target;
+      }
+    }
+  }
+  return merged;
+}
 
-  const startDate = from.setZone(timezone).startOf("day");
-  const endDate = to.setZone(timezone).startOf("day");
+export interface DailyPoint {
+  date: string;
+  value: number;
+}
 
-  let cursor = startDate;
-  while (cursor <= endDate) {
+/** Sum events into one point per local day between from and to (inclusive). */
+export function buildDailySeries(
+  events: UsageEvent[],
+  timezone: string,
+  from: DateTime,
+  to: DateTime,
+  value: (event: UsageEvent) => number = (event) => event.cost.final_usd ?? 0
+): DailyPoint[] {
+  const buckets = new Map<string, number>();
+  let cursor = from.setZone(timezone).startOf("day");
+  const end = to.setZone(timezone).startOf("day");
+  while (cursor <= end) {
     const day = cursor.toISODate();
-    if (day) {
-      const filePath = path.join(eventsDir, `${day}.jsonl`);
-      const dayEvents = await readJsonl<UsageEvent>(filePath);
-      events.push(...dayEvents);
-    }
+    if (day) buckets.set(day, 0);
     cursor = cursor.plus({ days: 1 });
   }
 
-  return events;
+  for (const event of events) {
+    const day = DateTime.fromISO(event.ts).setZone(timezone).toISODate();
+    if (day && buckets.has(day)) {
+      buckets.set(day, (buckets.get(day) ?? 0) + value(event));
+    }
+  }
+
+  return Array.from(buckets, ([date, total]) => ({ date, value: total }));
 }
 
-function parseEventDate(fileName: string): DateTime | null {
-  const match = /^(\d{4}-\d{2}-\d{2})\.jsonl$/.exec(fileName);
-  if (!match) return null;
-  const parsed = DateTime.fromISO(match[1]);
-  return parsed.isValid ? parsed : null;
+export interface KeyedSeries {
+  key: string;
+  values: number[];
+  /** Sum over the window, before any running total. */
+  total: number;
 }
 
-export async function loadAllEvents(
+export interface PeriodSeriesOptions {
+  period?: "day" | "week" | "month";
+  weekStart?: number;
+  /** One series per bucket of this breakdown, instead of a single "total". */
+  by?: BreakdownKey;
+  /** Keep the largest `max` series, folding the rest into "other". */
+  max?: number;
+  /** Running totals instead of per-period values. */
+  cumulative?: boolean;
+}
+
+/**
+ * Sum events between from and to (inclusive local days) into one value per
+ * day, week or month, optionally split by a breakdown key. `periods` holds
+ * the local date each period starts on; series are largest first.
+ */
+export function buildPeriodSeries(
+  events: UsageEvent[],
   timezone: string,
-  now: DateTime
-): Promise<{ events: UsageEvent[]; earliest: DateTime }> {
-  const { eventsDir } = getPaths();
-  if (!fs.existsSync(eventsDir)) {
-    return { events: [], earliest: now };
+  from: DateTime,
+  to: DateTime,
+  options: PeriodSeriesOptions = {}
+): { periods: string[]; series: KeyedSeries[] } {
+  const { period = "day", weekStart = 1, by, max = 7, cumulative = false } = options;
+  const first = from.setZone(timezone).startOf("day");
+  const last = to.setZone(timezone).startOf("day");
+
+  const periods: string[] = [];
+  const index = new Map<string, number>();
+  const step = { [`${period}s`]: 1 };
+  for (let cursor = periodStart(first, period, weekStart); cursor <= last; cursor = cursor.plus(step)) {
+    const date = cursor.toISODate() ?? "";
+    index.set(date, periods.length);
+    periods.push(date);
   }
 
-  const files = fs.readdirSync(eventsDir);
-  let earliest = now;
-  let found = false;
+  const byKey = new Map<string, number[]>();
+  for (const event of events) {
+    const local = DateTime.fromISO(event.ts).setZone(timezone);
+    if (local < first || local >= last.plus({ days: 1 })) continue;
+    const slot = index.get(periodStart(local, period, weekStart).toISODate() ?? "");
+    if (slot === undefined) continue;
+    const key = by ? eventBreakdownValue(event, by) : "total";
+    const values = byKey.get(key) ?? periods.map(() => 0);
+    values[slot] += event.cost.final_usd ?? 0;
+    byKey.set(key, values);
+  }
 
-  for (const file of files) {
-    const date = parseEventDate(file);
-    if (!date) continue;
-    if (!found || date < earliest) {
-      earliest = date;
-      found = true;
-    }
+  let series = [...byKey]
+    .map(([key, values]) => ({ key, values, total: values.reduce((sum, value) => sum + value, 0) }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+  if (series.length === 0) series = [{ key: "total", values: periods.map(() => 0), total: 0 }];
+  if (series.length > max) {
+    const rest = series.slice(max - 1);
+    series = [
+      ...series.slice(0, max - 1),
+      {
+        key: "other",
+        values: periods.map((_, slot) => rest.reduce((sum, entry) => sum + entry.values[slot], 0)),
+        total: rest.reduce((sum, entry) => sum + entry.total, 0),
+      },
+    ];
   }
 
-  if (!found) {
-    return { events: [], earliest: now };
+  if (cumulative) {
+    for (const entry of series) {
+      let running = 0;
+      entry.values = entry.values.map((value) => (running += value));
+    }
   }
+  return { periods, series };
+}
 
-  const events = await loadEventsForRange(timezone, earliest, now);
-  return { events, earliest };
+/** Stored events for every local day touched by from..to. */
+export async function loadEventsForRange(
+  timezone: string,
+  from: DateTime,
+  to: DateTime
+): Promise<UsageEvent[]> {
+  return queryEvents({
+    from: from.setZone(timezone).startOf("day"),
+    to: to.setZone(timezone).endOf("day"),
+  });
 }
 
-export async function loadSummaries(
+export async function loadAllEvents(
   timezone: string,
   now: DateTime
-): Promise<{ today: Summary; mtd: Summary; ytd: Summary; all: Summary }> {
-  const startOfDay = now.setZone(timezone).startOf("day");
-  const startOfMonth = now.setZone(timezone).startOf("month");
-  const startOfYear = now.setZone(timezone).startOf("year");
-
-  const { events, earliest } = await loadAllEvents(timezone, now);
-  const today = aggregateEvents(events, timezone, startOfDay, now);
-  const mtd = aggregateEvents(events, timezone, startOfMonth, now);
-  const ytd = aggregateEvents(events, timezone, startOfYear, now);
-  const all = aggregateEvents(events, timezone, earliest, now);
-
-  return { today, mtd, ytd, all };
+): Promise<{ events: UsageEvent[]; earliest: DateTime }> {
+  const days = listEventDays();
+  if (days.length === 0) {
+    return { events: [], earliest: now };
+  }
+
+  const earliest = DateTime.fromISO(days[0]);
+  const events = await loadEventsForRange(timezone, earliest, now);
+  return { events, earliest };
 }
 
 export function summarizeByProvider(
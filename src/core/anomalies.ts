@@ -0,0 +1,205 @@
+import { DateTime } from "luxon";
+import { aggregateEvents, eventBreakdownValue, loadEventsForRange } from "./aggregate.js";
+import type { ThinktaxConfig } from "./config.js";
+import type { UsageEvent } from "./events.js";
+import { summarizeSessions } from "./sessions.js";
+
+export type AnomalyKind = "day" | "project" | "session";
+
+export const ANOMALY_KINDS: AnomalyKind[] = ["day", "project", "session"];
+
+export interface AnomalyOptions {
+  /** Standard deviations above the baseline mean that count as anomalous. */
+  zScore: number;
+  /** Days of history before each day that form its baseline. */
+  baselineDays: number;
+  /** Ignore deviations smaller than this many dollars above the mean. */
+  minUsd: number;
+}
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  /** The local day, project name or session id. */
+  key: string;
+  /** Local day the spend happened on (a session's start day). */
+  date: string;
+  value_usd: number;
+  baseline_mean_usd: number;
+  baseline_std_usd: number;
+  /** Null when the baseline has no spread, i.e. spend appeared out of nowhere. */
+  z: number | null;
+  /** Source files behind the spend, most expensive first. */
+  files: string[];
+}
+
+const DEFAULT_OPTIONS: AnomalyOptions = { zScore: 3, baselineDays: 28, minUsd: 1 };
+
+export function isAnomalyKind(value: string): value is AnomalyKind {
+  return (ANOMALY_KINDS as string[]).includes(value);
+}
+
+export function resolveAnomalyOptions(
+  config: ThinktaxConfig,
+  overrides: Partial<AnomalyOptions> = {}
+): AnomalyOptions {
+  return { ...DEFAULT_OPTIONS, ...config.anomalies, ...overrides };
+}
+
+function stats(values: number[]): { mean: number; std: number } {
+  if (values.length === 0) return { mean: 0, std: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+/** Score `value` against `baseline`, or null if it isn't anomalous. */
+function score(
+  value: number,
+  baseline: number[],
+  options: AnomalyOptions
+): Pick<Anomaly, "baseline_mean_usd" | "baseline_std_usd" | "z"> | null {
+  const { mean, std } = stats(baseline);
+  if (value - mean < options.minUsd) return null;
+  const z = std > 0 ? (value - mean) / std : null;
+  if (z !== null && z < options.zScore) return null;
+  return { baseline_mean_usd: mean, baseline_std_usd: std, z };
+}
+
+function topFiles(events: UsageEvent[], max = 3): string[] {
+  const byFile = new Map<string, number>();
+  for (const event of events) {
+    const file = event.meta?.file;
+    if (typeof file !== "string") continue;
+    byFile.set(file, (byFile.get(file) ?? 0) + (event.cost.final_usd ?? 0));
+  }
+  return [...byFile]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, max)
+    .map(([file]) => file);
+}
+
+function localDay(event: UsageEvent, timezone: string): string {
+  return DateTime.fromISO(event.ts).setZone(timezone).toISODate() ?? "";
+}
+
+/**
+ * Flag spend in from..to that sits `zScore` standard deviations above its
+ * rolling baseline: each day against the `baselineDays` before it, each
+ * project's day against that project's own history, and each session
+ * against the sessions of the baseline period.
+ */
+export function detectAnomalies(
+  events: UsageEvent[],
+  timezone: string,
+  from: DateTime,
+  to: DateTime,
+  options: AnomalyOptions,
+  kinds: AnomalyKind[] = ANOMALY_KINDS
+): Anomaly[] {
+  const start = from.setZone(timezone).startOf("day");
+  const end = to.setZone(timezone).endOf("day");
+  const historyStart = start.minus({ days: options.baselineDays });
+
+  const byDay = new Map<string, UsageEvent[]>();
+  for (const event of events) {
+    const day = localDay(event, timezone);
+    const dayEvents = byDay.get(day) ?? [];
+    dayEvents.push(event);
+    byDay.set(day, dayEvents);
+  }
+  const summaries = new Map<string, ReturnType<typeof aggregateEvents>>();
+  const summaryFor = (day: DateTime) => {
+    const key = day.toISODate() ?? "";
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = aggregateEvents(byDay.get(key) ?? [], timezone, day, day.endOf("day"));
+      summaries.set(key, summary);
+    }
+    return summary;
+  };
+
+  const anomalies: Anomaly[] = [];
+  for (let day = start; day <= end; day = day.plus({ days: 1 })) {
+    const date = day.toISODate() ?? "";
+    const dayEvents = byDay.get(date) ?? [];
+    const summary = summaryFor(day);
+    const history: ReturnType<typeof aggregateEvents>[] = [];
+    for (let offset = options.baselineDays; offset >= 1; offset--) {
+      history.push(summaryFor(day.minus({ days: offset })));
+    }
+    // Without any history there is nothing to deviate from.
+    if (!history.some((past) => past.totals.count > 0)) continue;
+
+    if (kinds.includes("day")) {
+      const value = summary.totals.final_usd;
+      const flagged = score(value, history.map((past) => past.totals.final_usd), options);
+      if (flagged) {
+        anomalies.push({
+          kind: "day",
+          key: date,
+          date,
+          value_usd: value,
+          ...flagged,
+          files: topFiles(dayEvents),
+        });
+      }
+    }
+
+    if (kinds.includes("project")) {
+      for (const [project, totals] of Object.entries(summary.breakdowns.project)) {
+        const baseline = history.map((past) => past.breakdowns.project[project]?.final_usd ?? 0);
+        const flagged = score(totals.final_usd, baseline, options);
+        if (!flagged) continue;
+        const projectEvents = dayEvents.filter((event) => eventBreakdownValue(event, "project") === project);
+        anomalies.push({
+          kind: "project",
+          key: project,
+          date,
+          value_usd: totals.final_usd,
+          ...flagged,
+          files: topFiles(projectEvents),
+        });
+      }
+    }
+  }
+
+  if (kinds.includes("session")) {
+    const sessions = summarizeSessions(
+      events.filter((event) => {
+        const ts = DateTime.fromISO(event.ts);
+        return ts >= historyStart && ts <= end;
+      })
+    );
+    const baseline = sessions
+      .filter((session) => DateTime.fromISO(session.start) < start)
+      .map((session) => session.totals.final_usd);
+    for (const session of baseline.length > 0 ? sessions : []) {
+      const started = DateTime.fromISO(session.start);
+      if (started < start || started > end) continue;
+      const flagged = score(session.totals.final_usd, baseline, options);
+      if (!flagged) continue;
+      anomalies.push({
+        kind: "session",
+        key: session.id,
+        date: started.setZone(timezone).toISODate() ?? "",
+        value_usd: session.totals.final_usd,
+        ...flagged,
+        files: session.file ? [session.file] : [],
+      });
+    }
+  }
+
+  return anomalies.sort((a, b) => b.date.localeCompare(a.date) || b.value_usd - a.value_usd);
+}
+
+/** Load from..to plus its baseline history and detect anomalies in from..to. */
+export async function loadAnomalies(
+  timezone: string,
+  from: DateTime,
+  to: DateTime,
+  options: AnomalyOptions,
+  kinds?: AnomalyKind[]
+): Promise<Anomaly[]> {
+  const events = await loadEventsForRange(timezone, from.minus({ days: options.baselineDays }), to);
+  return detectAnomalies(events, timezone, from, to, options, kinds);
+}
@@ -0,0 +1,214 @@
+import { DateTime } from "luxon";
+import { BudgetConfig, BudgetPeriod, ThinktaxConfig, resolveWeekStart } from "./config.js";
+import { UsageEvent } from "./events.js";
+import {
+  BreakdownKey,
+  Summary,
+  aggregateEvents,
+  eventBreakdownValue,
+  loadEventsForRange,
+} from "./aggregate.js";
+import { startOfWeek } from "./ranges.js";
+import { loadRangeSummary } from "./snapshots.js";
+
+export type BudgetState = "ok" | "warning" | "exceeded";
+
+export interface BudgetScope {
+  provider?: string;
+  project?: string;
+  model?: string;
+  billing?: string;
+}
+
+export interface BudgetStatus {
+  name: string;
+  period: BudgetPeriod;
+  from: string;
+  to: string;
+  scope: BudgetScope;
+  limit_usd: number;
+  spent_usd: number;
+  remaining_usd: number;
+  percent: number;
+  warn_at: number;
+  state: BudgetState;
+}
+
+const DEFAULT_WARN_AT = 80;
+
+const STATE_RANK: Record<BudgetState, number> = {
+  ok: 0,
+  warning: 1,
+  exceeded: 2,
+};
+
+export function budgetScope(budget: BudgetConfig): BudgetScope {
+  const scope: BudgetScope = {};
+  if (budget.provider) scope.provider = budget.provider;
+  if (budget.project) scope.project = budget.project;
+  if (budget.model) scope.model = budget.model;
+  if (budget.billing) scope.billing = budget.billing;
+  return scope;
+}
+
+function defaultBudgetName(budget: BudgetConfig): string {
+  const period = budget.period ?? "month";
+  const scope = Object.values(budgetScope(budget));
+  return scope.length > 0 ? `${period} ${scope.join("/")}` : `${period} total`;
+}
+
+/** Resolve the reporting window a budget applies to, or null if misconfigured. */
+export function budgetWindow(
+  budget: BudgetConfig,
+  timezone: string,
+  now: DateTime,
+  weekStart = 1
+): { from: DateTime; to: DateTime } | null {
+  const local = now.setZone(timezone);
+  const period = budget.period ?? "month";
+
+  switch (period) {
+    case "day":
+      return { from: local.startOf("day"), to: local.endOf("day") };
+    case "week": {
+      const from = startOfWeek(local, weekStart);
+      return { from, to: from.plus({ days: 6 }).endOf("day") };
+    }
+    case "month":
+      return { from: local.startOf("month"), to: local.endOf("month") };
+    case "custom": {
+      if (!budget.from || !budget.to) return null;
+      const from = DateTime.fromISO(budget.from, { zone: timezone });
+      const to = DateTime.fromISO(budget.to, { zone: timezone });
+      if (!from.isValid || !to.isValid || to < from) return null;
+      return { from: from.startOf("day"), to: to.endOf("day") };
+    }
+    default:
+      return null;
+  }
+}
+
+export function matchesBudgetScope(scope: BudgetScope, event: UsageEvent): boolean {
+  if (scope.provider && eventBreakdownValue(event, "provider") !== scope.provider) {
+    return false;
+  }
+  if (scope.project && eventBreakdownValue(event, "project") !== scope.project) {
+    return false;
+  }
+  if (scope.model && eventBreakdownValue(event, "model") !== scope.model) {
+    return false;
+  }
+  if (scope.billing && eventBreakdownValue(event, "billing") !== scope.billing) {
+    return false;
+  }
+  return true;
+}
+
+export function budgetState(
+  spent: number,
+  limit: number,
+  warnAt: number
+): BudgetState {
+  if (spent > limit) return "exceeded";
+  if (limit <= 0) return "ok";
+  if ((spent / limit) * 100 >= warnAt) return "warning";
+  return "ok";
+}
+
+function budgetStatus(
+  budget: BudgetConfig & { limit: number },
+  summary: Summary,
+  spent: number
+): BudgetStatus {
+  const warnAt = budget.warnAt ?? DEFAULT_WARN_AT;
+  const percent = budget.limit > 0 ? (spent / budget.limit) * 100 : 0;
+
+  return {
+    name: budget.name ?? defaultBudgetName(budget),
+    period: budget.period ?? "month",
+    from: summary.from,
+    to: summary.to,
+    scope: budgetScope(budget),
+    limit_usd: budget.limit,
+    spent_usd: spent,
+    remaining_usd: budget.limit - spent,
+    percent,
+    warn_at: warnAt,
+    state: budgetState(spent, budget.limit, warnAt),
+  };
+}
+
+export function evaluateBudget(
+  budget: BudgetConfig,
+  events: UsageEvent[],
+  timezone: string,
+  now: DateTime,
+  weekStart = 1
+): BudgetStatus | null {
+  const window = budgetWindow(budget, timezone, now, weekStart);
+  if (!window || typeof budget.limit !== "number") return null;
+
+  const scope = budgetScope(budget);
+  const scoped = events.filter((event) => matchesBudgetScope(scope, event));
+  const summary = aggregateEvents(scoped, timezone, window.from, window.to);
+  return budgetStatus({ ...budget, limit: budget.limit }, summary, summary.totals.final_usd);
+}
+
+/**
+ * Spend for a budget from its window's summary, or null when the scope
+ * combines dimensions that summaries only break down one at a time.
+ */
+function summarySpend(scope: BudgetScope, summary: Summary): number | null {
+  const entries = Object.entries(scope) as Array<[BreakdownKey, string]>;
+  if (entries.length === 0) return summary.totals.final_usd;
+  if (entries.length > 1) return null;
+  const [key, value] = entries[0];
+  return summary.breakdowns[key][value]?.final_usd ?? 0;
+}
+
+/**
+ * Evaluate every configured budget from daily snapshots. Budgets scoped to
+ * more than one dimension fall back to the raw events in their window.
+ */
+export async function evaluateBudgets(
+  config: ThinktaxConfig,
+  timezone: string,
+  now: DateTime
+): Promise<BudgetStatus[]> {
+  const budgets = config.budgets ?? [];
+  if (budgets.length === 0) return [];
+  const weekStart = resolveWeekStart(config);
+
+  // Budgets sharing a period share a window; load each window once.
+  const summaries = new Map<string, Summary>();
+  const statuses: BudgetStatus[] = [];
+  for (const budget of budgets) {
+    const window = budgetWindow(budget, timezone, now, weekStart);
+    if (!window || typeof budget.limit !== "number") continue;
+
+    const key = `${window.from.toISO()}/${window.to.toISO()}`;
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = await loadRangeSummary(timezone, window.from, window.to);
+      summaries.set(key, summary);
+    }
+
+    const spent = summarySpend(budgetScope(budget), summary);
+    if (spent !== null) {
+      statuses.push(budgetStatus({ ...budget, limit: budget.limit }, summary, spent));
+      continue;
+    }
+    const events = await loadEventsForRange(timezone, window.from, window.to);
+    const status = evaluateBudget(budget, events, timezone, now, weekStart);
+    if (status) statuses.push(status);
+  }
+  return statuses;
+}
+
+export function worstBudgetState(statuses: BudgetStatus[]): BudgetState {
+  let worst: BudgetState = "ok";
+  for (const status of statuses) {
+    if (STATE_RANK[status.state] > STATE_RANK[worst]) worst = status.state;
+  }
+  return worst;
+}
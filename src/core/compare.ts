@@ -0,0 +1,96 @@
+import { BREAKDOWN_KEYS, BreakdownKey, Summary, Totals, emptyTotals } from "./aggregate.js";
+
+export interface Delta {
+  current: number;
+  previous: number;
+  delta: number;
+  /** Change relative to `previous`, or null when there was nothing before. */
+  percent: number | null;
+}
+
+export interface BucketDelta extends Delta {
+  key: string;
+  /** This bucket's part of the overall cost change (-1..1 when all moved together). */
+  share: number | null;
+  current_count: number;
+  previous_count: number;
+}
+
+export interface ComparisonWindow {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface Comparison {
+  current: ComparisonWindow;
+  previous: ComparisonWindow;
+  totals: Record<keyof Totals, Delta>;
+  /** Every bucket in either window, biggest cost change first. */
+  breakdowns: Record<BreakdownKey, BucketDelta[]>;
+  /** The projects and models that moved cost the most. */
+  movers: { project: BucketDelta[]; model: BucketDelta[] };
+}
+
+export function delta(current: number, previous: number): Delta {
+  return {
+    current,
+    previous,
+    delta: current - previous,
+    percent: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+  };
+}
+
+function compareBreakdown(
+  current: Record<string, Totals>,
+  previous: Record<string, Totals>,
+  totalDelta: number
+): BucketDelta[] {
+  const keys = new Set([...Object.keys(current), ...Object.keys(previous)]);
+  return [...keys]
+    .map((key) => {
+      const now = current[key] ?? emptyTotals();
+      const before = previous[key] ?? emptyTotals();
+      const cost = delta(now.final_usd, before.final_usd);
+      return {
+        key,
+        ...cost,
+        share: totalDelta !== 0 ? cost.delta / totalDelta : null,
+        current_count: now.count,
+        previous_count: before.count,
+      };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.key.localeCompare(b.key));
+}
+
+/** Compare two windows' summaries, totals and every breakdown. */
+export function compareSummaries(
+  current: Summary & { label: string },
+  previous: Summary & { label: string },
+  movers = 5
+): Comparison {
+  const totals = {} as Record<keyof Totals, Delta>;
+  for (const key of Object.keys(emptyTotals()) as Array<keyof Totals>) {
+    totals[key] = delta(current.totals[key] ?? 0, previous.totals[key] ?? 0);
+  }
+
+  const breakdowns = {} as Record<BreakdownKey, BucketDelta[]>;
+  for (const key of BREAKDOWN_KEYS) {
+    breakdowns[key] = compareBreakdown(
+      current.breakdowns[key],
+      previous.breakdowns[key],
+      totals.final_usd.delta
+    );
+  }
+
+  const moved = (buckets: BucketDelta[]) =>
+    buckets.filter((bucket) => bucket.delta !== 0).slice(0, movers);
+
+  return {
+    current: { label: current.label, from: current.from, to: current.to },
+    previous: { label: previous.label, from: previous.from, to: previous.to },
+    totals,
+    breakdowns,
+    movers: { project: moved(breakdowns.project), model: moved(breakdowns.model) },
+  };
+}
@@ -2,6 +2,7 @@ import fs from "node:fs";
 import path from "node:path";
 import * as toml from "@iarna/toml";
 import { getPaths } from "./paths.js";
+import type { PricingOverrides } from "./pricing.js";
 
 export interface ProjectMapping {
   id?: string;
@@ -13,10 +14,72 @@ export interface ProjectMapping {
   };
 }
 
+export type BudgetPeriod = "day" | "week" | "month" | "custom";
+
+export interface BudgetConfig {
+  /** Display name (defaults to a description of the period and scope). */
+  name?: string;
+  /** Spend limit in USD for the window. */
+  limit: number;
+  /** Window the limit applies to (default: "month"). */
+  period?: BudgetPeriod;
+  /** Inclusive start date (YYYY-MM-DD) for custom windows. */
+  from?: string;
+  /** Inclusive end date (YYYY-MM-DD) for custom windows. */
+  to?: string;
+  /** Percent of the limit at which the budget reports a warning (default: 80). */
+  warnAt?: number;
+  /** Only count events for this provider (e.g. "anthropic"). */
+  provider?: string;
+  /** Only count events for this project name, as shown by --breakdown project. */
+  project?: string;
+  /** Only count events for this model. */
+  model?: string;
+  /** Only count events with this billing mode (subscription|api|estimate). */
+  billing?: string;
+}
+
+/**
+ * A tool that logs usage in its own format. Field values are dotted paths into
+ * each row (JSON) or column names (CSV).
+ */
+export interface CustomSourceConfig {
+  /** Identifies the source in event ids and `meta.customSource`. */
+  name: string;
+  /** Files to read; a leading ~ expands to the home directory. */
+  glob: string;
+  format: "jsonl" | "json" | "csv";
+  /** For json files, the dotted path to the array of rows (default: the root). */
+  rows?: string;
+  /** Provider for rows without a provider field (default: inferred from the model). */
+  provider?: string;
+  fields: {
+    timestamp: string;
+    id?: string;
+    model?: string;
+    provider?: string;
+    input?: string;
+    output?: string;
+    cacheWrite?: string;
+    cacheRead?: string;
+    /** Reported cost in USD. */
+    cost?: string;
+    /** Project name, or a path that is resolved to its git root. */
+    project?: string;
+    session?: string;
+  };
+}
+
 export interface ThinktaxConfig {
   ui?: {
     timezone?: string;
     includeUnknown?: boolean;
+    /** First day of the week: a weekday name or 1 (Monday) to 7 (Sunday). */
+    weekStart?: string | number;
+  };
+  storage?: {
+    /** Where normalized events are kept (default: "jsonl"). */
+    backend?: "jsonl" | "sqlite";
   };
   claude?: {
     projectsDir?: string;
@@ -32,6 +95,14 @@ export interface ThinktaxConfig {
   codex?: {
     home?: string;
   };
+  gemini?: {
+    /** Gemini CLI home (default: ~/.gemini). */
+    home?: string;
+    /** Local telemetry outfile (default: <home>/telemetry.log). */
+    telemetryFile?: string;
+    /** Project roots used to resolve Gemini's hashed per-project folders. */
+    projectRoots?: string[];
+  };
   cursor?: {
     dashboard?: {
       /** Session token in format "user_id::jwt" (from WorkosCursorSessionToken cookie) */
@@ -89,6 +160,24 @@ export interface ThinktaxConfig {
   projects?: {
     mappings?: ProjectMapping[];
   };
+  budgets?: BudgetConfig[];
+  anomalies?: {
+    /** Standard deviations above the rolling mean to flag (default: 3). */
+    zScore?: number;
+    /** Days of history each day is compared against (default: 28). */
+    baselineDays?: number;
+    /** Ignore spend less than this many USD above the mean (default: 1). */
+    minUsd?: number;
+  };
+  sources?: {
+    custom?: CustomSourceConfig[];
+  };
+  collectors?: {
+    /** Modules exporting extra collectors; paths are relative to the config file. */
+    plugins?: string[];
+  };
+  /** Rate overrides, aliases and discounts layered over the bundled pricing. */
+  pricing?: PricingOverrides;
 }
 
 export interface LoadedConfig {
@@ -129,6 +218,19 @@ export function resolveTimezone(config: ThinktaxConfig): string {
   return Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
 }
 
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+/** The configured week start as a Luxon weekday (1 = Monday, 7 = Sunday). */
+export function resolveWeekStart(config: ThinktaxConfig): number {
+  const value = config.ui?.weekStart;
+  if (typeof value === "number" && value >= 1 && value <= 7) return Math.floor(value);
+  if (typeof value === "string") {
+    const index = WEEKDAYS.findIndex((day) => day.startsWith(value.trim().toLowerCase().slice(0, 3)));
+    if (index >= 0) return index + 1;
+  }
+  return 1;
+}
+
 export function resolveCursorTeamUrl(config: ThinktaxConfig): string | null {
   const team = config.cursor?.team;
   if (!team) return null;
@@ -159,6 +261,11 @@ export function resolveCodexHome(config: ThinktaxConfig): string {
   return path.join(process.env.HOME ?? "", ".codex");
 }
 
+export function resolveGeminiHome(config: ThinktaxConfig): string {
+  if (config.gemini?.home) return config.gemini.home;
+  return path.join(process.env.HOME ?? "", ".gemini");
+}
+
 export function resolveReviewCrewHistoryDir(config: ThinktaxConfig): string {
   if (config.reviewCrew?.historyDir) return config.reviewCrew.historyDir;
   return path.join(process.env.HOME ?? "", ".review-crew", "history");
@@ -172,6 +279,10 @@ export function resolveGleanUsageDir(config: ThinktaxConfig): string {
   return path.join(stateBase, "glean", "usage");
 }
 
+export function resolveApprenticeUsageDir(_config: ThinktaxConfig): string {
+  return path.join(process.env.HOME ?? "", ".apprentice", "usage");
+}
+
 export function resolveBillingSessionsFile(): string {
   const xdgConfig = process.env.XDG_CONFIG_HOME ?? path.join(process.env.HOME ?? "", ".config");
   return path.join(xdgConfig, "thinktax", "billing-sessions.jsonl");
@@ -1,10 +1,23 @@
 import { UsageEvent } from "./events.js";
-import { estimateCostUsd, findPricing, PricingTable } from "./pricing.js";
+import { estimateCostUsd, resolvePricing, PricingSignals, PricingTable } from "./pricing.js";
 
 export interface CostingOptions {
   includeUnknown?: boolean;
 }
 
+function numberMeta(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/** Tier signals collectors record in `meta`. */
+export function pricingSignals(event: UsageEvent): PricingSignals {
+  return {
+    prompt_tokens: numberMeta(event.meta?.prompt_tokens),
+    service_tier: typeof event.meta?.service_tier === "string" ? event.meta.service_tier : null,
+    cache_write_1h_tokens: numberMeta(event.meta?.cache_write_1h_tokens),
+  };
+}
+
 export function applyCosting(
   event: UsageEvent,
   pricing: PricingTable,
@@ -12,10 +25,20 @@ export function applyCosting(
 ): UsageEvent {
   const updated = { ...event, cost: { ...event.cost } };
 
-  // Always compute the estimate for "what it would have cost" tracking
-  const pricingModel = findPricing(pricing, updated.provider, updated.model);
+  // Always compute the estimate for "what it would have cost" tracking,
+  // at the price in effect when the event happened
+  const resolved = resolvePricing(pricing, updated.provider, updated.model, updated.ts);
+  const pricingModel = resolved?.pricing ?? null;
+  updated.cost.pricing_entry = resolved
+    ? `${resolved.entry.provider}/${resolved.entry.model}`
+    : null;
+  updated.cost.pricing_match = resolved?.match ?? null;
   if (pricingModel) {
-    updated.cost.estimated_usd = estimateCostUsd(pricingModel, updated.tokens);
+    updated.cost.estimated_usd = estimateCostUsd(
+      pricingModel,
+      updated.tokens,
+      pricingSignals(updated)
+    );
   }
 
   // Subscription billing: tokens are covered by flat-rate plan
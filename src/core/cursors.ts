@@ -0,0 +1,157 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { getPaths } from "./paths.js";
+
+/**
+ * How far a collector has read into an append-only file. `state` holds
+ * whatever the collector carries from line to line (e.g. running totals) so
+ * it can resume at `offset` without re-reading earlier lines.
+ */
+export interface FileCursor<S = unknown> {
+  ino: number;
+  size: number;
+  mtimeMs: number;
+  offset: number;
+  /** Hash of the file's first bytes up to `offset`, to notice a rewrite that regrew past it. */
+  head?: string;
+  state?: S;
+}
+
+/** Cursors for one collector, keyed by file path. */
+export type FileCursors = Record<string, FileCursor>;
+
+export interface JsonlChunk<T, S> {
+  /** Entries from complete lines after the previous cursor. */
+  entries: T[];
+  /** Where the next read starts; `state` is carried over when resumed. */
+  cursor: FileCursor<S>;
+  /** False when the file is new, replaced or truncated and was read from the start. */
+  resumed: boolean;
+}
+
+function cursorsFile(collector: string): string {
+  const { stateDir } = getPaths();
+  return path.join(stateDir, "cursors", `${collector}.json`);
+}
+
+export function readFileCursors(collector: string): FileCursors {
+  const filePath = cursorsFile(collector);
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as FileCursors;
+  } catch {
+    return {};
+  }
+}
+
+/** Save a collector's cursors; an empty set removes the file. */
+export function writeFileCursors(collector: string, cursors: FileCursors): void {
+  const filePath = cursorsFile(collector);
+  if (Object.keys(cursors).length === 0) {
+    fs.rmSync(filePath, { force: true });
+    return;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cursors));
+}
+
+/** Drop cursors for files that no longer exist. */
+export function retainCursors(cursors: FileCursors, filePaths: string[]): void {
+  const keep = new Set(filePaths);
+  for (const filePath of Object.keys(cursors)) {
+    if (!keep.has(filePath)) delete cursors[filePath];
+  }
+}
+
+const HEAD_BYTES = 1024;
+
+function readHead(filePath: string, offset: number): string {
+  const buffer = Buffer.alloc(Math.min(offset, HEAD_BYTES));
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, buffer, 0, buffer.length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return crypto.createHash("sha1").update(buffer).digest("hex");
+}
+
+function parseLines<T>(text: string): T[] {
+  const items: T[] = [];
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      items.push(JSON.parse(trimmed) as T);
+    } catch {
+      // Skip malformed line.
+    }
+  }
+  return items;
+}
+
+/**
+ * Read JSONL lines appended since `cursor`. A trailing line without a newline
+ * is left for the next read unless it already parses, since the writer may be
+ * midway through it. A file that has disappeared has no new lines.
+ */
+export function readJsonlSince<T, S = unknown>(
+  filePath: string,
+  cursor?: FileCursor
+): JsonlChunk<T, S> {
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(filePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    const unchanged = cursor ?? { ino: 0, size: 0, mtimeMs: 0, offset: 0 };
+    return { entries: [], cursor: unchanged as FileCursor<S>, resumed: cursor !== undefined };
+  }
+  const sameFile =
+    cursor !== undefined && cursor.ino === stats.ino && cursor.offset <= stats.size;
+
+  if (sameFile && cursor.size === stats.size && cursor.mtimeMs === stats.mtimeMs) {
+    return { entries: [], cursor: cursor as FileCursor<S>, resumed: true };
+  }
+  // Truncated and rewritten in place past the old offset: same inode, new head.
+  const resumed =
+    sameFile && (cursor.head === undefined || cursor.head === readHead(filePath, cursor.offset));
+
+  const start = resumed ? cursor.offset : 0;
+  const length = stats.size - start;
+  const buffer = Buffer.alloc(length);
+  if (length > 0) {
+    const fd = fs.openSync(filePath, "r");
+    try {
+      fs.readSync(fd, buffer, 0, length, start);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  let consumed = buffer.lastIndexOf(0x0a) + 1;
+  const tail = buffer.subarray(consumed).toString("utf8").trim();
+  if (tail) {
+    try {
+      JSON.parse(tail);
+      consumed = length;
+    } catch {
+      // Incomplete line; read it next time.
+    }
+  }
+
+  const offset = start + consumed;
+  return {
+    entries: parseLines<T>(buffer.subarray(0, consumed).toString("utf8")),
+    cursor: {
+      ino: stats.ino,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      offset,
+      head: readHead(filePath, offset),
+      state: resumed ? (cursor.state as S | undefined) : undefined,
+    },
+    resumed,
+  };
+}
@@ -2,18 +2,21 @@ import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import readline from "node:readline";
+import type { PricingMatchKind } from "./pricing.js";
 
 export type UsageSource =
   | "cursor_ide"
   | "cursor_agent_cli"
   | "claude_code"
   | "codex_cli"
+  | "gemini_cli"
   | "openclaw"
   | "apprentice"
   | "glean"
-  | "review_crew";
+  | "review_crew"
+  | "custom";
 
-export type UsageProvider = "cursor" | "anthropic" | "openai" | "moonshot";
+export type UsageProvider = "cursor" | "anthropic" | "openai" | "google" | "moonshot";
 
 export interface UsageTokens {
   in: number;
@@ -27,6 +30,10 @@ export interface UsageCost {
   estimated_usd: number | null;
   final_usd: number | null;
   mode: "reported" | "estimated" | "mixed" | "unknown" | "subscription";
+  /** Pricing entry ("provider/model") the estimate used. */
+  pricing_entry?: string | null;
+  /** How the model found that entry; prefix and substring matches are guesses. */
+  pricing_match?: PricingMatchKind | null;
 }
 
 export interface UsageProject {
@@ -44,6 +51,8 @@ export interface UsageEvent {
   tokens: UsageTokens;
   cost: UsageCost;
   project: UsageProject;
+  /** The conversation or agent run the event belongs to, within its source. */
+  session?: string | null;
   meta: Record<string, unknown>;
 }
 
@@ -0,0 +1,200 @@
+import { DateTime } from "luxon";
+import { BreakdownKey, Totals, addTotals, emptyTotals, eventBreakdownValue } from "./aggregate.js";
+import type { UsageEvent } from "./events.js";
+import { periodStart } from "./ranges.js";
+
+export type ExportFormat = "csv" | "jsonl" | "json";
+export type ExportPeriod = "day" | "week" | "month";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "jsonl", "json"];
+export const EXPORT_PERIODS: ExportPeriod[] = ["day", "week", "month"];
+
+/** A flat row: every value is a string, a number or null. */
+export type ExportRow = Record<string, string | number | null>;
+
+/** Columns for per-event rows, in output order. `meta.<key>` selects meta values. */
+export const EVENT_FIELDS = [
+  "id",
+  "ts",
+  "date",
+  "source",
+  "provider",
+  "model",
+  "billing",
+  "tokens_in",
+  "tokens_out",
+  "cache_write",
+  "cache_read",
+  "reported_usd",
+  "estimated_usd",
+  "final_usd",
+  "cost_mode",
+  "pricing_entry",
+  "pricing_match",
+  "project_id",
+  "project_name",
+  "project_root",
+] as const;
+
+/** Columns added to each period (and breakdown bucket) in grouped rows. */
+export const TOTALS_FIELDS: Array<keyof Totals> = [
+  "count",
+  "tokens_in",
+  "tokens_out",
+  "cache_write",
+  "cache_read",
+  "reported_usd",
+  "estimated_usd",
+  "final_usd",
+  "unknown_cost",
+  "subscription_count",
+  "subscription_saved_usd",
+  "guessed_count",
+];
+
+export interface ExportOptions {
+  timezone: string;
+  from: DateTime;
+  to: DateTime;
+  /** Aggregate into one row per period instead of one per event. */
+  group?: ExportPeriod;
+  /** Luxon weekday weeks start on (default: Monday). */
+  weekStart?: number;
+  /** With `group`, one row per period and breakdown bucket. */
+  by?: BreakdownKey;
+  /** Columns to keep, in order (default: all of them). */
+  fields?: string[];
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function isExportPeriod(value: string): value is ExportPeriod {
+  return (EXPORT_PERIODS as string[]).includes(value);
+}
+
+function metaValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number" || typeof value === "string") return value;
+  if (typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+/** An event as a flat row, with `date` the local day in `timezone`. */
+export function flattenEvent(event: UsageEvent, timezone: string, meta: string[] = []): ExportRow {
+  const row: ExportRow = {
+    id: event.id,
+    ts: event.ts,
+    date: DateTime.fromISO(event.ts).setZone(timezone).toISODate(),
+    source: event.source,
+    provider: event.provider,
+    model: event.model,
+    billing: eventBreakdownValue(event, "billing"),
+    tokens_in: event.tokens.in,
+    tokens_out: event.tokens.out,
+    cache_write: event.tokens.cache_write,
+    cache_read: event.tokens.cache_read,
+    reported_usd: event.cost.reported_usd,
+    estimated_usd: event.cost.estimated_usd,
+    final_usd: event.cost.final_usd,
+    cost_mode: event.cost.mode,
+    pricing_entry: event.cost.pricing_entry ?? null,
+    pricing_match: event.cost.pricing_match ?? null,
+    project_id: event.project.id,
+    project_name: event.project.name,
+    project_root: event.project.root,
+  };
+  for (const key of meta) {
+    row[`meta.${key}`] = metaValue(event.meta?.[key]);
+  }
+  return row;
+}
+
+/** The local date a period starts on. */
+function periodKey(ts: string, timezone: string, period: ExportPeriod, weekStart = 1): string {
+  return periodStart(DateTime.fromISO(ts).setZone(timezone), period, weekStart).toISODate() ?? "";
+}
+
+function groupEvents(events: UsageEvent[], options: ExportOptions & { group: ExportPeriod }): ExportRow[] {
+  const groups = new Map<string, { period: string; bucket: string | null; totals: Totals }>();
+  for (const event of events) {
+    const period = periodKey(event.ts, options.timezone, options.group, options.weekStart);
+    const bucket = options.by ? eventBreakdownValue(event, options.by) : null;
+    const key = `${period}\u0000${bucket ?? ""}`;
+    const group = groups.get(key) ?? { period, bucket, totals: emptyTotals() };
+    addTotals(group.totals, event);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.period.localeCompare(b.period) || (a.bucket ?? "").localeCompare(b.bucket ?? ""))
+    .map(({ period, bucket, totals }) => {
+      const row: ExportRow = { period };
+      if (options.by) row[options.by] = bucket;
+      for (const field of TOTALS_FIELDS) row[field] = totals[field];
+      return row;
+    });
+}
+
+/** The columns `options` produce, in order. */
+export function exportColumns(options: ExportOptions): string[] {
+  if (options.fields?.length) return options.fields;
+  if (options.group) return ["period", ...(options.by ? [options.by] : []), ...TOTALS_FIELDS];
+  return [...EVENT_FIELDS];
+}
+
+/** Requested fields that `options` can't produce. */
+export function unknownExportFields(options: ExportOptions): string[] {
+  const known = new Set(exportColumns({ ...options, fields: undefined }));
+  return (options.fields ?? []).filter(
+    (field) => !known.has(field) && (options.group !== undefined || !field.startsWith("meta."))
+  );
+}
+
+/** Events in from..to as flat rows, one per event or one per period and bucket. */
+export function buildExportRows(events: UsageEvent[], options: ExportOptions): ExportRow[] {
+  const inRange = events.filter((event) => {
+    const ts = DateTime.fromISO(event.ts);
+    return ts >= options.from && ts <= options.to;
+  });
+
+  const rows = options.group
+    ? groupEvents(inRange, { ...options, group: options.group })
+    : inRange
+        .sort((a, b) => a.ts.localeCompare(b.ts))
+        .map((event) =>
+          flattenEvent(
+            event,
+            options.timezone,
+            (options.fields ?? [])
+              .filter((field) => field.startsWith("meta."))
+              .map((field) => field.slice("meta.".length))
+          )
+        );
+
+  if (!options.fields?.length) return rows;
+  const fields = options.fields;
+  return rows.map((row) => Object.fromEntries(fields.map((field) => [field, row[field] ?? null])));
+}
+
+function csvValue(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows. Every row has the same columns, so CSV gets one header
+ * line and JSON rows load straight into dataframes or Parquet writers.
+ */
+export function formatExport(rows: ExportRow[], format: ExportFormat, header: string[]): string {
+  if (format === "json") return JSON.stringify(rows, null, 2) + "\n";
+  if (format === "jsonl") return rows.map((row) => JSON.stringify(row) + "\n").join("");
+
+  const lines = [header.map(csvValue).join(",")];
+  for (const row of rows) {
+    lines.push(header.map((column) => csvValue(row[column] ?? null)).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,249 @@
+import { DateTime } from "luxon";
+import type { DailyPoint } from "./aggregate.js";
+import { loadDailySummaries } from "./snapshots.js";
+
+export interface ForecastHorizon {
+  from: string;
+  to: string;
+  actual_usd: number;
+  remaining_usd: number;
+  projected_usd: number;
+  low_usd: number;
+  high_usd: number;
+  remaining_days: number;
+}
+
+export interface ForecastModel {
+  history_days: number;
+  trailing_7_usd: number;
+  trailing_28_usd: number;
+  trend_usd_per_day: number;
+  /** Multipliers for Monday..Sunday relative to an average day. */
+  weekday_factors: number[];
+  residual_stddev_usd: number;
+}
+
+export interface Forecast {
+  timezone: string;
+  generated_at: string;
+  confidence: number;
+  model: ForecastModel;
+  month: ForecastHorizon;
+  year: ForecastHorizon;
+}
+
+export interface ForecastOptions {
+  /** Days of completed history to fit against (default: 56). */
+  lookbackDays?: number;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 56;
+/** Two-sided 80% interval for a normal distribution. */
+const CONFIDENCE = 0.8;
+const Z_SCORE = 1.2816;
+/** Minimum history before weekday seasonality is trusted. */
+const MIN_SEASONAL_DAYS = 14;
+
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function weekdayIndex(date: string, timezone: string): number {
+  return DateTime.fromISO(date, { zone: timezone }).weekday - 1;
+}
+
+function weekdayFactors(history: DailyPoint[], timezone: string): number[] {
+  const factors = [1, 1, 1, 1, 1, 1, 1];
+  if (history.length < MIN_SEASONAL_DAYS) return factors;
+
+  const overall = mean(history.map((point) => point.value));
+  if (overall <= 0) return factors;
+
+  const byWeekday: number[][] = [[], [], [], [], [], [], []];
+  for (const point of history) {
+    byWeekday[weekdayIndex(point.date, timezone)].push(point.value);
+  }
+
+  return byWeekday.map((values) =>
+    values.length > 0 ? mean(values) / overall : 1
+  );
+}
+
+/** Least-squares fit of y = intercept + slope * x. */
+function linearFit(points: Array<[number, number]>): {
+  intercept: number;
+  slope: number;
+} {
+  if (points.length === 0) return { intercept: 0, slope: 0 };
+  if (points.length === 1) return { intercept: points[0][1], slope: 0 };
+
+  const xMean = mean(points.map(([x]) => x));
+  const yMean = mean(points.map(([, y]) => y));
+  let numerator = 0;
+  let denominator = 0;
+  for (const [x, y] of points) {
+    numerator += (x - xMean) * (y - yMean);
+    denominator += (x - xMean) ** 2;
+  }
+  const slope = denominator > 0 ? numerator / denominator : 0;
+  return { intercept: yMean - slope * xMean, slope };
+}
+
+export function fitForecastModel(
+  history: DailyPoint[],
+  timezone: string
+): ForecastModel {
+  const values = history.map((point) => point.value);
+  const factors = weekdayFactors(history, timezone);
+
+  // Weekdays that never see spend say nothing about the underlying level.
+  const deseasonalized: Array<[number, number]> = [];
+  history.forEach((point, x) => {
+    const factor = factors[weekdayIndex(point.date, timezone)];
+    if (factor > 0) deseasonalized.push([x, point.value / factor]);
+  });
+
+  const { intercept, slope } = linearFit(deseasonalized);
+  const residuals = deseasonalized.map(
+    ([x, value]) => value - (intercept + slope * x)
+  );
+  const variance =
+    residuals.length > 1
+      ? residuals.reduce((sum, r) => sum + r * r, 0) / (residuals.length - 1)
+      : 0;
+
+  return {
+    history_days: history.length,
+    trailing_7_usd: mean(values.slice(-7)),
+    trailing_28_usd: mean(values.slice(-28)),
+    trend_usd_per_day: slope,
+    weekday_factors: factors,
+    residual_stddev_usd: Math.sqrt(variance),
+  };
+}
+
+/** Expected spend for a day `ahead` days after the last day of history. */
+function expectedDaily(
+  model: ForecastModel,
+  date: DateTime,
+  ahead: number
+): number {
+  // The trailing 7-day average is centred ~3 days back; damp the trend so it
+  // never extrapolates further than the history it was fitted on.
+  const steps = Math.min(ahead + 3, model.history_days);
+  const level = model.trailing_7_usd + model.trend_usd_per_day * steps;
+  const factor = model.weekday_factors[date.weekday - 1] ?? 1;
+  return Math.max(0, level * factor);
+}
+
+function projectHorizon(
+  model: ForecastModel,
+  series: DailyPoint[],
+  now: DateTime,
+  start: DateTime,
+  end: DateTime
+): ForecastHorizon {
+  const today = now.startOf("day");
+  const actual = series
+    .filter((point) => {
+      const day = DateTime.fromISO(point.date, { zone: now.zone });
+      return day >= start.startOf("day") && day <= today;
+    })
+    .reduce((sum, point) => sum + point.value, 0);
+
+  // Remaining share of today plus every whole day left in the horizon.
+  const dayLength = today.endOf("day").diff(today).as("milliseconds");
+  const todayRemaining = Math.max(
+    0,
+    1 - now.diff(today).as("milliseconds") / dayLength
+  );
+
+  let remaining = expectedDaily(model, today, 1) * todayRemaining;
+  let remainingDays = todayRemaining;
+  let cursor = today.plus({ days: 1 });
+  let ahead = 2;
+  while (cursor <= end) {
+    remaining += expectedDaily(model, cursor, ahead);
+    remainingDays += 1;
+    cursor = cursor.plus({ days: 1 });
+    ahead += 1;
+  }
+
+  const band = Z_SCORE * model.residual_stddev_usd * Math.sqrt(remainingDays);
+  const projected = actual + remaining;
+
+  return {
+    from: start.toISODate() ?? "",
+    to: end.toISODate() ?? "",
+    actual_usd: actual,
+    remaining_usd: remaining,
+    projected_usd: projected,
+    low_usd: Math.max(actual, projected - band),
+    high_usd: projected + band,
+    remaining_days: remainingDays,
+  };
+}
+
+/**
+ * Project month-end and year-end spend from a daily series that ends today.
+ * Today's partial total counts as actual spend but is excluded from fitting,
+ * as is anything older than the lookback window.
+ */
+export function forecastSpend(
+  series: DailyPoint[],
+  timezone: string,
+  now: DateTime,
+  options: ForecastOptions = {}
+): Forecast {
+  const local = now.setZone(timezone);
+  const lookback = Math.max(1, options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS);
+  const todayIso = local.toISODate() ?? "";
+  const historyStart = local.minus({ days: lookback }).toISODate() ?? "";
+  const history = series.filter(
+    (point) => point.date >= historyStart && point.date < todayIso
+  );
+
+  // Ignore leading days before the first recorded spend so a short history
+  // isn't dragged toward zero by empty days.
+  const firstActive = history.findIndex((point) => point.value > 0);
+  const fitted = firstActive === -1 ? [] : history.slice(firstActive);
+  const model = fitForecastModel(fitted, timezone);
+  const lastDay = local.endOf("year").startOf("day");
+
+  return {
+    timezone,
+    generated_at: local.toISO() ?? "",
+    confidence: CONFIDENCE,
+    model,
+    month: projectHorizon(
+      model,
+      series,
+      local,
+      local.startOf("month"),
+      local.endOf("month").startOf("day")
+    ),
+    year: projectHorizon(model, series, local, local.startOf("year"), lastDay),
+  };
+}
+
+export async function loadForecast(
+  timezone: string,
+  now: DateTime,
+  options: ForecastOptions = {}
+): Promise<Forecast> {
+  const local = now.setZone(timezone);
+  const lookback = Math.max(1, options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS);
+  const historyStart = local.minus({ days: lookback }).startOf("day");
+  // Year-to-date actuals need every day since January, the model only the lookback.
+  const startOfYear = local.startOf("year");
+  const from = historyStart < startOfYear ? historyStart : startOfYear;
+
+  const daily = await loadDailySummaries(timezone, from.toISODate() ?? "", local.toISODate() ?? "");
+  const series: DailyPoint[] = [];
+  for (let day = from; day <= local; day = day.plus({ days: 1 })) {
+    const date = day.toISODate() ?? "";
+    series.push({ date, value: daily.get(date)?.totals.final_usd ?? 0 });
+  }
+  return forecastSpend(series, timezone, local, options);
+}
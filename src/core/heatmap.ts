@@ -0,0 +1,81 @@
+import { DateTime } from "luxon";
+import type { UsageEvent } from "./events.js";
+
+export type HeatmapMetric = "cost" | "tokens";
+
+export const HEATMAP_METRICS: HeatmapMetric[] = ["cost", "tokens"];
+
+export interface Heatmap {
+  metric: HeatmapMetric;
+  /** Luxon weekdays (1 = Monday) in row order, starting at the week start. */
+  weekdays: number[];
+  /** One row per weekday, one cell per local hour. */
+  cells: number[][];
+  total: number;
+  max: number;
+  /** Share of the total spent on weekdays inside working hours (0..1). */
+  workShare: number;
+}
+
+export interface HeatmapOptions {
+  metric?: HeatmapMetric;
+  weekStart?: number;
+  /** Working hours as [first hour, end hour), e.g. [9, 18]. */
+  workHours?: [number, number];
+}
+
+export function isHeatmapMetric(value: string): value is HeatmapMetric {
+  return (HEATMAP_METRICS as string[]).includes(value);
+}
+
+/** "9-18" → [9, 18]; the end hour is exclusive. */
+export function parseWorkHours(value: string): [number, number] {
+  const match = /^(\d{1,2})\s*-\s*(\d{1,2})$/.exec(value.trim());
+  const start = match ? Number(match[1]) : NaN;
+  const end = match ? Number(match[2]) : NaN;
+  if (!match || start >= end || end > 24) {
+    throw new Error(`Invalid working hours: ${value} (expected e.g. 9-18)`);
+  }
+  return [start, end];
+}
+
+function metricValue(event: UsageEvent, metric: HeatmapMetric): number {
+  if (metric === "cost") return event.cost.final_usd ?? 0;
+  const { tokens } = event;
+  return tokens.in + tokens.out + tokens.cache_write + tokens.cache_read;
+}
+
+/** Sum events between from and to (inclusive local days) by local weekday and hour. */
+export function buildHeatmap(
+  events: UsageEvent[],
+  timezone: string,
+  from: DateTime,
+  to: DateTime,
+  options: HeatmapOptions = {}
+): Heatmap {
+  const { metric = "cost", weekStart = 1, workHours = [9, 18] } = options;
+  const weekdays = Array.from({ length: 7 }, (_, index) => ((weekStart - 1 + index) % 7) + 1);
+  const cells = weekdays.map(() => Array.from({ length: 24 }, () => 0));
+  const first = from.setZone(timezone).startOf("day");
+  const end = to.setZone(timezone).endOf("day");
+
+  let total = 0;
+  let work = 0;
+  for (const event of events) {
+    const local = DateTime.fromISO(event.ts).setZone(timezone);
+    if (local < first || local > end) continue;
+    const value = metricValue(event, metric);
+    cells[weekdays.indexOf(local.weekday)][local.hour] += value;
+    total += value;
+    if (local.weekday <= 5 && local.hour >= workHours[0] && local.hour < workHours[1]) work += value;
+  }
+
+  return {
+    metric,
+    weekdays,
+    cells,
+    total,
+    max: Math.max(...cells.flat()),
+    workShare: total > 0 ? work / total : 0,
+  };
+}
@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { getPaths } from "./paths.js";
+
+/** Who is collecting, as written to the lock file. */
+export interface LockInfo {
+  pid: number;
+  command: string;
+  startedAt: string;
+}
+
+export type LockResult =
+  | { acquired: true; release(): void }
+  | { acquired: false; holder: LockInfo };
+
+function lockFile(): string {
+  const { stateDir } = getPaths();
+  return path.join(stateDir, "collect.lock");
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export function readLock(): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockFile(), "utf8")) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take the collection lock so only one process writes events at a time. A
+ * lock left behind by a process that has exited is taken over.
+ */
+export function acquireCollectionLock(command: string): LockResult {
+  const filePath = lockFile();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const info: LockInfo = { pid: process.pid, command, startedAt: new Date().toISOString() };
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(filePath, JSON.stringify(info), { flag: "wx" });
+      return {
+        acquired: true,
+        release: () => {
+          if (readLock()?.pid === process.pid) fs.rmSync(filePath, { force: true });
+        },
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    const holder = readLock();
+    if (holder && holder.pid !== process.pid && isAlive(holder.pid)) {
+      return { acquired: false, holder };
+    }
+    fs.rmSync(filePath, { force: true });
+  }
+
+  return { acquired: false, holder: readLock() ?? info };
+}
@@ -8,9 +8,11 @@ export interface ThinktaxPaths {
   configFile: string;
   dataDir: string;
   eventsDir: string;
+  eventsDb: string;
   snapshotsDir: string;
   stateDir: string;
   pricingFile: string;
+  userPricingFile: string;
 }
 
 export function getPaths(): ThinktaxPaths {
@@ -26,9 +28,10 @@ export function getPaths(): ThinktaxPaths {
     : process.env.XDG_DATA_HOME ?? path.join(home, ".local", "share");
 
   const configDir = path.join(configBase, "thinktax");
-  const dataDir = isMac
-    ? path.join(dataBase, "thinktax", "data")
-    : path.join(dataBase, "thinktax");
+  // THINKTAX_DATA_DIR moves all data, e.g. to keep tests away from real data.
+  const dataDir =
+    process.env.THINKTAX_DATA_DIR ??
+    (isMac ? path.join(dataBase, "thinktax", "data") : path.join(dataBase, "thinktax"));
 
   const eventsDir = path.join(dataDir, "events");
   const snapshotsDir = path.join(dataDir, "snapshots");
@@ -47,9 +50,11 @@ export function getPaths(): ThinktaxPaths {
     configFile: path.join(configDir, "config.toml"),
     dataDir,
     eventsDir,
+    eventsDb: path.join(dataDir, "events.sqlite"),
     snapshotsDir,
     stateDir,
     pricingFile,
+    userPricingFile: path.join(configDir, "pricing.json"),
   };
 }
 
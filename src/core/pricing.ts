@@ -1,62 +1,399 @@
 import fs from "node:fs";
+import { DateTime } from "luxon";
+import type { ThinktaxConfig } from "./config.js";
 import { UsageProvider, UsageTokens } from "./events.js";
 import { getPaths } from "./paths.js";
+import { warn } from "./logger.js";
 
-export interface PricingModel {
-  provider: UsageProvider;
-  model: string;
+export interface PricingRates {
   input_per_million: number;
   output_per_million: number;
   cache_write_per_million?: number;
+  /** Cache writes with a 1-hour TTL; falls back to cache_write_per_million. */
+  cache_write_1h_per_million?: number;
   cache_read_per_million?: number;
+}
+
+/**
+ * Rates for requests that meet every condition listed. Matching tiers apply
+ * in order: their rates replace the base rates, then `multiplier` scales all
+ * of them (e.g. 0.5 for batch).
+ */
+export interface PricingTier extends Partial<PricingRates> {
+  name?: string;
+  /** Prompt size (input plus cached tokens) above which the tier applies. */
+  prompt_tokens_above?: number;
+  /** Service tiers the tier applies to, e.g. "batch", "flex" or "priority". */
+  service_tier?: string | string[];
+  multiplier?: number;
+}
+
+/** Per-request facts that decide which tiers apply. */
+export interface PricingSignals {
+  prompt_tokens?: number | null;
+  service_tier?: string | null;
+  cache_write_1h_tokens?: number | null;
+}
+
+/**
+ * Rates in effect between two dates. `effective_from` is inclusive and
+ * `effective_to` exclusive; either may be omitted for an open-ended period.
+ */
+export interface PricingPeriod extends Partial<PricingRates> {
+  effective_from?: string;
+  effective_to?: string;
+  tiers?: PricingTier[];
   notes?: string;
 }
 
+/** Where an entry's rates came from, last layer wins. */
+export type PricingOrigin = "bundled" | "user" | "config";
+
+export interface PricingModel extends PricingRates {
+  provider: UsageProvider;
+  model: string;
+  notes?: string;
+  /** Negotiated discount taken off every estimate priced with this entry. */
+  discount_percent?: number;
+  tiers?: PricingTier[];
+  /** Historical or scheduled prices; the top-level rates apply outside them. */
+  periods?: PricingPeriod[];
+  origin?: PricingOrigin;
+}
+
 export interface PricingTable {
   updated: string | null;
   currency: "USD";
   per: "1M";
   models: PricingModel[];
+  /** Model name -> "model" or "provider/model" of the entry to price it as. */
+  aliases?: Record<string, string>;
 }
 
-export function loadPricingTable(): PricingTable {
-  const { pricingFile } = getPaths();
+/**
+ * Changes layered over the bundled table, from the user pricing file or the
+ * `[pricing]` config section. Model entries matching an existing provider and
+ * model override only the fields they set; others are added.
+ */
+export interface PricingOverrides {
+  models?: Array<Partial<PricingModel> & { provider: UsageProvider; model: string }>;
+  aliases?: Record<string, string>;
+  /** Discount percent per provider, e.g. { anthropic: 15 }. */
+  discounts?: Record<string, number>;
+}
+
+export function applyPricingOverrides(
+  table: PricingTable,
+  overrides: PricingOverrides,
+  origin: PricingOrigin
+): PricingTable {
+  const models = table.models.slice();
+  const added: PricingModel[] = [];
+
+  for (const override of overrides.models ?? []) {
+    const index = models.findIndex(
+      (entry) => entry.provider === override.provider && entry.model === override.model
+    );
+    if (index >= 0) {
+      models[index] = { ...models[index], ...override, origin };
+      continue;
+    }
+    if (
+      typeof override.input_per_million !== "number" ||
+      typeof override.output_per_million !== "number"
+    ) {
+      warn(
+        `Pricing override for ${override.provider}/${override.model} needs input_per_million and output_per_million; skipped`
+      );
+      continue;
+    }
+    added.push({ ...(override as PricingModel), origin });
+  }
+
+  // Added models come first so they win substring matches over broader entries.
+  const layered = [...added, ...models];
+
+  for (const [provider, percent] of Object.entries(overrides.discounts ?? {})) {
+    for (let i = 0; i < layered.length; i++) {
+      if (layered[i].provider === provider) {
+        layered[i] = { ...layered[i], discount_percent: percent };
+      }
+    }
+  }
+
+  return {
+    ...table,
+    models: layered,
+    aliases: { ...(table.aliases ?? {}), ...(overrides.aliases ?? {}) },
+  };
+}
+
+function readPricingOverrides(filePath: string): PricingOverrides | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as PricingOverrides;
+  } catch (err) {
+    warn(`Could not read pricing overrides from ${filePath}: ${String(err)}`);
+    return null;
+  }
+}
+
+/**
+ * The bundled pricing table with the user pricing file and the `[pricing]`
+ * config section layered on top, in that order.
+ */
+export function loadPricingTable(config: ThinktaxConfig = {}): PricingTable {
+  const { pricingFile, userPricingFile } = getPaths();
   const raw = fs.readFileSync(pricingFile, "utf8");
-  return JSON.parse(raw) as PricingTable;
+  let table = JSON.parse(raw) as PricingTable;
+  table = {
+    ...table,
+    models: table.models.map((entry) => ({ ...entry, origin: "bundled" as const })),
+  };
+
+  const userOverrides = readPricingOverrides(userPricingFile);
+  if (userOverrides) table = applyPricingOverrides(table, userOverrides, "user");
+  if (config.pricing) table = applyPricingOverrides(table, config.pricing, "config");
+
+  return table;
+}
+
+function periodBoundary(value: string | undefined): number | null {
+  if (!value) return null;
+  const dt = DateTime.fromISO(value, { zone: "utc" });
+  return dt.isValid ? dt.toMillis() : null;
+}
+
+function periodCovers(period: PricingPeriod, at: DateTime): boolean {
+  const ms = at.toMillis();
+  const from = periodBoundary(period.effective_from);
+  const to = periodBoundary(period.effective_to);
+  if (from !== null && ms < from) return false;
+  if (to !== null && ms >= to) return false;
+  return true;
+}
+
+/** The entry's rates as they were at `ts`, without its period list. */
+export function pricingAt(entry: PricingModel, ts: string | null): PricingModel {
+  const { periods, ...current } = entry;
+  if (!periods || periods.length === 0 || !ts) return current;
+  const at = DateTime.fromISO(ts);
+  if (!at.isValid) return current;
+  const period = periods.find((candidate) => periodCovers(candidate, at));
+  if (!period) return current;
+  const { effective_from: _from, effective_to: _to, ...rates } = period;
+  return { ...current, ...rates };
+}
+
+/**
+ * How a reported model name found its pricing entry. "prefix" and "substring"
+ * matches are guesses: the table has no entry for the model itself.
+ */
+export type PricingMatchKind = "exact" | "alias" | "normalized" | "prefix" | "substring";
+
+export function isGuessedMatch(kind: PricingMatchKind | null | undefined): boolean {
+  return kind === "prefix" || kind === "substring";
+}
+
+export interface PricingResolution {
+  /** The table entry that priced the model. */
+  entry: PricingModel;
+  /** The entry's rates at the requested time. */
+  pricing: PricingModel;
+  /** The alias target used, if the model was aliased. */
+  alias: string | null;
+  match: PricingMatchKind;
+}
+
+const VENDOR_PREFIX = /^(?:(?:us|eu|apac|global)\.)?(?:anthropic|openai|google|meta|mistral|moonshot)\./;
+const VERSION_SUFFIX = /-v\d+(?::\d+)?$/;
+const DATE_SUFFIX = /[-@](?:\d{8}|\d{4}-\d{2}-\d{2})$/;
+
+/**
+ * Reduce a reported model id to the form pricing entries use: lowercase,
+ * without routing prefixes ("openai/", "anthropic.") or version and date
+ * suffixes ("-v1:0", "-20250514", "@20241022").
+ */
+export function normalizeModelName(model: string): string {
+  let name = model.trim().toLowerCase();
+  name = name.slice(name.lastIndexOf("/") + 1);
+  name = name.replace(VENDOR_PREFIX, "");
+  name = name.replace(VERSION_SUFFIX, "");
+  name = name.replace(DATE_SUFFIX, "");
+  return name;
+}
+
+interface NamedEntry {
+  entry: PricingModel;
+  name: string;
+}
+
+/** The candidate with the longest normalized name; the first wins ties. */
+function longest(candidates: NamedEntry[]): PricingModel | null {
+  let best: NamedEntry | null = null;
+  for (const candidate of candidates) {
+    if (!best || candidate.name.length > best.name.length) best = candidate;
+  }
+  return best?.entry ?? null;
+}
+
+function matchEntry(
+  table: PricingTable,
+  provider: UsageProvider | null,
+  model: string
+): { entry: PricingModel; match: PricingMatchKind } | null {
+  const candidates = table.models.filter(
+    (entry) => provider === null || entry.provider === provider
+  );
+
+  const exact = candidates.find((entry) => entry.model === model);
+  if (exact) return { entry: exact, match: "exact" };
+
+  const normalized = normalizeModelName(model);
+  const named: NamedEntry[] = candidates.map((entry) => ({
+    entry,
+    name: normalizeModelName(entry.model),
+  }));
+
+  // Dated entries like gpt-4o-2024-05-13 normalize to the same name as their
+  // undated model; the undated entry is the one a normalized id means.
+  const same = named.filter((candidate) => candidate.name === normalized);
+  const undated = same.find((candidate) => candidate.entry.model.toLowerCase() === normalized);
+  if (same.length > 0) return { entry: (undated ?? same[0]).entry, match: "normalized" };
+
+  const prefix = longest(named.filter((candidate) => normalized.startsWith(`${candidate.name}-`)));
+  if (prefix) return { entry: prefix, match: "prefix" };
+
+  const substring = longest(named.filter((candidate) => normalized.includes(candidate.name)));
+  return substring ? { entry: substring, match: "substring" } : null;
+}
+
+export function resolvePricing(
+  table: PricingTable,
+  provider: UsageProvider | null,
+  model: string | null,
+  ts: string | null = null
+): PricingResolution | null {
+  if (!model) return null;
+
+  const alias = table.aliases?.[model] ?? table.aliases?.[normalizeModelName(model)];
+  if (alias) {
+    const slash = alias.indexOf("/");
+    const aliased =
+      slash > 0
+        ? matchEntry(table, alias.slice(0, slash) as UsageProvider, alias.slice(slash + 1))
+        : matchEntry(table, provider, alias) ?? matchEntry(table, null, alias);
+    if (aliased) {
+      return {
+        entry: aliased.entry,
+        pricing: pricingAt(aliased.entry, ts),
+        alias,
+        match: "alias",
+      };
+    }
+  }
+
+  const matched = matchEntry(table, provider, model);
+  if (!matched) return null;
+  return {
+    entry: matched.entry,
+    pricing: pricingAt(matched.entry, ts),
+    alias: null,
+    match: matched.match,
+  };
 }
 
 export function findPricing(
   table: PricingTable,
   provider: UsageProvider,
-  model: string | null
+  model: string | null,
+  ts: string | null = null
 ): PricingModel | null {
-  if (!model) return null;
-  const direct = table.models.find(
-    (entry) => entry.provider === provider && entry.model === model
-  );
-  if (direct) return direct;
+  return resolvePricing(table, provider, model, ts)?.pricing ?? null;
+}
 
-  const fuzzy = table.models.find(
-    (entry) => entry.provider === provider && model.includes(entry.model)
-  );
+function tierMatches(
+  tier: PricingTier,
+  tokens: UsageTokens,
+  signals: PricingSignals
+): boolean {
+  if (tier.prompt_tokens_above !== undefined) {
+    const promptTokens =
+      signals.prompt_tokens ?? tokens.in + tokens.cache_read + tokens.cache_write;
+    if (promptTokens <= tier.prompt_tokens_above) return false;
+  }
+  if (tier.service_tier !== undefined) {
+    const allowed = Array.isArray(tier.service_tier) ? tier.service_tier : [tier.service_tier];
+    if (!signals.service_tier || !allowed.includes(signals.service_tier)) return false;
+  }
+  return true;
+}
+
+const RATE_KEYS = [
+  "input_per_million",
+  "output_per_million",
+  "cache_write_per_million",
+  "cache_write_1h_per_million",
+  "cache_read_per_million",
+] as const;
 
-  return fuzzy ?? null;
+/** The tiers of `pricing` that apply to a request, in order. */
+function matchingTiers(
+  pricing: PricingModel,
+  tokens: UsageTokens,
+  signals: PricingSignals = {}
+): PricingTier[] {
+  return (pricing.tiers ?? []).filter((tier) => tierMatches(tier, tokens, signals));
+}
+
+/** Base rates with every matching tier applied. */
+export function effectiveRates(
+  pricing: PricingModel,
+  tokens: UsageTokens,
+  signals: PricingSignals = {}
+): PricingRates {
+  const rates: PricingRates = {
+    input_per_million: pricing.input_per_million,
+    output_per_million: pricing.output_per_million,
+    cache_write_per_million: pricing.cache_write_per_million,
+    cache_write_1h_per_million: pricing.cache_write_1h_per_million,
+    cache_read_per_million: pricing.cache_read_per_million,
+  };
+  for (const tier of matchingTiers(pricing, tokens, signals)) {
+    for (const key of RATE_KEYS) {
+      if (tier[key] !== undefined) rates[key] = tier[key]!;
+    }
+    if (tier.multiplier !== undefined) {
+      for (const key of RATE_KEYS) {
+        if (rates[key] !== undefined) rates[key] = rates[key]! * tier.multiplier;
+      }
+    }
+  }
+  return rates;
 }
 
 export function estimateCostUsd(
   pricing: PricingModel,
-  tokens: UsageTokens
+  tokens: UsageTokens,
+  signals: PricingSignals = {}
 ): number {
-  const input = (tokens.in / 1_000_000) * pricing.input_per_million;
-  const output = (tokens.out / 1_000_000) * pricing.output_per_million;
+  const rates = effectiveRates(pricing, tokens, signals);
+  const input = (tokens.in / 1_000_000) * rates.input_per_million;
+  const output = (tokens.out / 1_000_000) * rates.output_per_million;
+
+  const cacheWrite1h = Math.min(signals.cache_write_1h_tokens ?? 0, tokens.cache_write);
+  const cacheWrite5m = tokens.cache_write - cacheWrite1h;
+  const cacheWriteRate = rates.cache_write_per_million;
+  const cacheWrite1hRate = rates.cache_write_1h_per_million ?? cacheWriteRate;
   const cacheWrite =
-    pricing.cache_write_per_million !== undefined
-      ? (tokens.cache_write / 1_000_000) * pricing.cache_write_per_million
-      : 0;
+    (cacheWriteRate !== undefined ? (cacheWrite5m / 1_000_000) * cacheWriteRate : 0) +
+    (cacheWrite1hRate !== undefined ? (cacheWrite1h / 1_000_000) * cacheWrite1hRate : 0);
+
   const cacheRead =
-    pricing.cache_read_per_million !== undefined
-      ? (tokens.cache_read / 1_000_000) * pricing.cache_read_per_million
+    rates.cache_read_per_million !== undefined
+      ? (tokens.cache_read / 1_000_000) * rates.cache_read_per_million
       : 0;
 
-  return input + output + cacheWrite + cacheRead;
+  const discount = 1 - (pricing.discount_percent ?? 0) / 100;
+  return (input + output + cacheWrite + cacheRead) * discount;
 }
@@ -0,0 +1,210 @@
+import { DateTime } from "luxon";
+
+/** A reporting window: local days from..to, with a label for output. */
+export interface ReportRange {
+  label: string;
+  from: DateTime;
+  to: DateTime;
+  /** The calendar unit the window spans, if it is one. */
+  unit?: "day" | "week" | "month" | "year";
+}
+
+/** Range flags shared by the reporting commands; at most one may be given. */
+export interface RangeOptions {
+  from?: string;
+  to?: string;
+  /** A trailing window ending today, e.g. "7d", "2w", "3m" or "1y". */
+  last?: string;
+  week?: boolean;
+  lastWeek?: boolean;
+  /** A calendar month, "YYYY-MM". */
+  month?: string;
+  lastMonth?: boolean;
+}
+
+export interface RangeContext {
+  timezone: string;
+  now: DateTime;
+  /** Luxon weekday the week starts on (1 = Monday, 7 = Sunday). */
+  weekStart?: number;
+}
+
+const LAST_UNITS: Record<string, "days" | "weeks" | "months" | "years"> = {
+  d: "days",
+  w: "weeks",
+  m: "months",
+  y: "years",
+};
+
+/** Midnight on the first day of the week containing `date`. */
+export function startOfWeek(date: DateTime, weekStart = 1): DateTime {
+  const offset = (date.weekday - weekStart + 7) % 7;
+  return date.startOf("day").minus({ days: offset });
+}
+
+/** Midnight on the first day of the day, week or month containing `date`. */
+export function periodStart(date: DateTime, period: "day" | "week" | "month", weekStart = 1): DateTime {
+  return period === "week" ? startOfWeek(date, weekStart) : date.startOf(period);
+}
+
+/** A window ending at `end`, or at `now` if the window is still running. */
+function upToNow(label: string, from: DateTime, end: DateTime, now: DateTime): ReportRange {
+  return { label, from, to: from <= now && now < end ? now : end };
+}
+
+function parseDay(value: string, flag: string, timezone: string): DateTime {
+  const day = DateTime.fromISO(value, { zone: timezone });
+  if (!day.isValid) throw new Error(`Invalid ${flag}: ${value} (expected YYYY-MM-DD)`);
+  return day;
+}
+
+export function monthRange(month: DateTime, now: DateTime): ReportRange {
+  const from = month.startOf("month");
+  return { ...upToNow(from.toFormat("yyyy-MM"), from, from.endOf("month"), now), unit: "month" };
+}
+
+export function weekRange(day: DateTime, now: DateTime, weekStart = 1): ReportRange {
+  const from = startOfWeek(day, weekStart);
+  const end = from.plus({ days: 6 }).endOf("day");
+  return { ...upToNow(`Week of ${from.toISODate()}`, from, end, now), unit: "week" };
+}
+
+/** "7d" → the last 7 days including today; a bare number means days. */
+export function lastRange(value: string, now: DateTime): ReportRange {
+  const match = /^(\d+)\s*([dwmy]?)$/i.exec(value.trim());
+  const amount = match ? Number(match[1]) : 0;
+  if (!match || amount < 1) {
+    throw new Error(`Invalid --last: ${value} (expected e.g. 7d, 2w, 3m or 1y)`);
+  }
+  const unit = LAST_UNITS[(match[2] || "d").toLowerCase()];
+  const from = now.minus({ [unit]: amount }).plus({ days: 1 }).startOf("day");
+  return { label: `Last ${amount}${match[2] || "d"}`, from, to: now };
+}
+
+/**
+ * Resolve range flags to a window in the reporting timezone, or null when
+ * none were given. Throws on malformed or conflicting flags.
+ */
+export function parseRange(options: RangeOptions, context: RangeContext): ReportRange | null {
+  const { timezone, weekStart = 1 } = context;
+  const now = context.now.setZone(timezone);
+
+  const given = [
+    options.from !== undefined || options.to !== undefined ? "--from/--to" : null,
+    options.last !== undefined ? "--last" : null,
+    options.week ? "--week" : null,
+    options.lastWeek ? "--last-week" : null,
+    options.month !== undefined ? "--month" : null,
+    options.lastMonth ? "--last-month" : null,
+  ].filter((flag): flag is string => flag !== null);
+  if (given.length > 1) throw new Error(`Choose one of ${given.join(", ")}`);
+
+  if (options.from !== undefined || options.to !== undefined) {
+    if (options.from === undefined) throw new Error("--to needs --from");
+    const from = parseDay(options.from, "--from", timezone).startOf("day");
+    const to = options.to !== undefined ? parseDay(options.to, "--to", timezone).endOf("day") : now;
+    if (from > to) throw new Error("--from must be before --to");
+    return { label: `${from.toISODate()}..${to.toISODate()}`, from, to };
+  }
+  if (options.last !== undefined) return lastRange(options.last, now);
+  if (options.week) return weekRange(now, now, weekStart);
+  if (options.lastWeek) return weekRange(now.minus({ weeks: 1 }), now, weekStart);
+  if (options.month !== undefined) {
+    if (!/^\d{4}-\d{2}$/.test(options.month)) {
+      throw new Error(`Invalid --month: ${options.month} (expected YYYY-MM)`);
+    }
+    return monthRange(parseDay(options.month, "--month", timezone), now);
+  }
+  if (options.lastMonth) return monthRange(now.minus({ months: 1 }), now);
+  return null;
+}
+
+function dayRange(day: DateTime, now: DateTime): ReportRange {
+  const from = day.startOf("day");
+  return { ...upToNow(from.toISODate() ?? "", from, from.endOf("day"), now), unit: "day" };
+}
+
+function yearRange(year: DateTime, now: DateTime): ReportRange {
+  const from = year.startOf("year");
+  return { ...upToNow(from.toFormat("yyyy"), from, from.endOf("year"), now), unit: "year" };
+}
+
+/**
+ * Parse a window written as one word: today, yesterday, this-week,
+ * last-week, this-month (mtd), last-month, this-year (ytd), last-year,
+ * a trailing span like 7d, a day, month or year (2026-03-04, 2026-03,
+ * 2026), or days joined by "..".
+ */
+export function parseWindow(spec: string, context: RangeContext): ReportRange {
+  const { timezone, weekStart = 1 } = context;
+  const now = context.now.setZone(timezone);
+  const value = spec.trim().toLowerCase();
+
+  switch (value) {
+    case "today":
+      return dayRange(now, now);
+    case "yesterday":
+      return dayRange(now.minus({ days: 1 }), now);
+    case "week":
+    case "this-week":
+      return weekRange(now, now, weekStart);
+    case "last-week":
+      return weekRange(now.minus({ weeks: 1 }), now, weekStart);
+    case "mtd":
+    case "month":
+    case "this-month":
+      return monthRange(now, now);
+    case "last-month":
+      return monthRange(now.minus({ months: 1 }), now);
+    case "ytd":
+    case "year":
+    case "this-year":
+      return yearRange(now, now);
+    case "last-year":
+      return yearRange(now.minus({ years: 1 }), now);
+  }
+
+  if (/^\d+\s*[dwmy]?$/.test(value)) return lastRange(value, now);
+  if (/^\d{4}$/.test(value)) return yearRange(parseDay(value, "window", timezone), now);
+  if (/^\d{4}-\d{2}$/.test(value)) return monthRange(parseDay(value, "window", timezone), now);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return dayRange(parseDay(value, "window", timezone), now);
+
+  const [from, to, extra] = value.split("..");
+  if (to !== undefined && extra === undefined) {
+    const range = parseRange({ from, to }, context);
+    if (range) return range;
+  }
+  throw new Error(
+    `Invalid window: ${spec} (expected e.g. this-month, last-week, 7d, 2026-03 or 2026-01-01..2026-01-31)`
+  );
+}
+
+/**
+ * The window `range` is compared against: the previous calendar unit (or
+ * the same one a year earlier, with `yearAgo`), else the equally long
+ * window just before it. A window that is still running is matched to the
+ * same stretch of the earlier one, so month-to-date compares like for like.
+ */
+export function previousRange(range: ReportRange, yearAgo = false): ReportRange {
+  const { unit } = range;
+  if (!unit) {
+    const days = Math.max(1, Math.round(range.to.endOf("day").diff(range.from, "days").days));
+    const shift = yearAgo ? { years: 1 } : { days };
+    const from = range.from.minus(shift);
+    const to = range.to.minus(shift);
+    return { label: `${from.toISODate()}..${to.toISODate()}`, from, to };
+  }
+
+  // A year before a week is 52 weeks back, so it starts on the same weekday.
+  const back = yearAgo ? (unit === "week" ? { weeks: 52 } : { years: 1 }) : { [`${unit}s`]: 1 };
+  const from = range.from.minus(back);
+  const end = from.plus({ [`${unit}s`]: 1 }).minus({ milliseconds: 1 });
+  const running = range.to < range.from.plus({ [`${unit}s`]: 1 }).minus({ milliseconds: 1 });
+  const to = running ? DateTime.min(from.plus(range.to.diff(range.from, ["days", "milliseconds"])), end) : end;
+
+  const label =
+    unit === "week"
+      ? `Week of ${from.toISODate()}`
+      : from.toFormat({ day: "yyyy-MM-dd", month: "yyyy-MM", year: "yyyy" }[unit]);
+  return { label, from, to, unit };
+}
@@ -0,0 +1,144 @@
+import { collapseClaudeEvents } from "../collectors/claude.js";
+import type { Collector } from "../collectors/registry.js";
+import type { ThinktaxConfig } from "./config.js";
+import { applyCosting } from "./cost.js";
+import { FileCursors, readFileCursors, writeFileCursors } from "./cursors.js";
+import type { UsageEvent } from "./events.js";
+import { debug } from "./logger.js";
+import { loadPricingTable } from "./pricing.js";
+import { refreshSnapshots } from "./snapshots.js";
+import { readSyncState, writeSyncState } from "./state.js";
+import { loadAllStoredEvents, replaceAllEvents, writeEvents } from "./storage.js";
+
+const CLAUDE_MESSAGE_KEYS_MIGRATION = "claude-message-keys";
+
+export interface CollectorRun {
+  collector: Collector;
+  events: UsageEvent[];
+  cursors: FileCursors;
+}
+
+export interface CollectorFailure {
+  collector: Collector;
+  message: string;
+}
+
+export interface RefreshResult {
+  runs: CollectorRun[];
+  /** Collectors that threw; their cursors and sync state are left as they were. */
+  failures: CollectorFailure[];
+  collected: number;
+  written: number;
+}
+
+export interface RefreshOptions {
+  timezone: string;
+  /** Ignore saved cursors and re-read every source file. */
+  full?: boolean;
+}
+
+/**
+ * Run `collectors`, cost and store their events, then rebuild snapshots and
+ * record the run in the sync state. Unconfigured collectors are skipped; one
+ * failing collector doesn't stop the others from being stored.
+ */
+export async function runRefresh(
+  config: ThinktaxConfig,
+  collectors: Collector[],
+  options: RefreshOptions
+): Promise<RefreshResult> {
+  const pricing = loadPricingTable(config);
+  debug("Loaded pricing for", Object.keys(pricing).length, "providers");
+  const includeUnknown = config.ui?.includeUnknown ?? false;
+
+  const sync = readSyncState();
+  const active = collectors.filter((collector) => collector.isConfigured(config));
+  debug(
+    "Skipping unconfigured collectors:",
+    collectors.filter((collector) => !active.includes(collector)).map((collector) => collector.name)
+  );
+
+  debug("Starting collectors...");
+  const settled = await Promise.allSettled(
+    active.map((collector) => {
+      const cursors = options.full ? {} : readFileCursors(collector.name);
+      return collector
+        .collect(config, { lastRun: sync.lastRun?.[collector.name] ?? null, cursors })
+        .then((events): CollectorRun => {
+          debug(`${collector.label} collector returned`, events.length, "events");
+          return { collector, events, cursors };
+        });
+    })
+  );
+  const runs: CollectorRun[] = [];
+  const failures: CollectorFailure[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "fulfilled") {
+      runs.push(outcome.value);
+    } else {
+      const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      debug(`${active[index].label} collector failed:`, message);
+      failures.push({ collector: active[index], message });
+    }
+  });
+
+  const rawEvents = runs.flatMap((run) => run.events);
+  debug("Total raw events:", rawEvents.length);
+
+  const costed = rawEvents.map((event) =>
+    applyCosting(event, pricing, { includeUnknown })
+  );
+  debug("Applied costing to all events");
+
+  if (!(sync.migrations ?? []).includes(CLAUDE_MESSAGE_KEYS_MIGRATION)) {
+    // Claude events used to be keyed per transcript line; rekey stored ones
+    // before writing so the per-message events don't count them twice.
+    const collapsed = await collapseClaudeEvents(await loadAllStoredEvents(), (event) =>
+      applyCosting(event, pricing, { includeUnknown })
+    );
+    if (collapsed.rekeyed > 0) {
+      await replaceAllEvents(collapsed.events);
+      debug(
+        "Rekeyed",
+        collapsed.rekeyed,
+        "stored Claude events, removed",
+        collapsed.duplicates.length,
+        "duplicates"
+      );
+    }
+    sync.migrations = [...(sync.migrations ?? []), CLAUDE_MESSAGE_KEYS_MIGRATION];
+  }
+
+  const written = await writeEvents(costed);
+  debug("Wrote", written, "new events to storage");
+  // Only advance cursors once their events are stored.
+  for (const { collector, cursors } of runs) {
+    writeFileCursors(collector.name, cursors);
+  }
+
+  const snapshots = await refreshSnapshots(options.timezone);
+  debug("Rebuilt", snapshots, "daily snapshots");
+
+  const finishedAt = new Date().toISOString();
+  sync.lastRefresh = finishedAt;
+  sync.lastRun = { ...(sync.lastRun ?? {}) };
+  sync.counts = { ...(sync.counts ?? {}) };
+  for (const { collector, events } of runs) {
+    sync.lastRun[collector.name] = finishedAt;
+    sync.counts[collector.name] = events.length;
+  }
+  writeSyncState(sync);
+
+  return { runs, failures, collected: rawEvents.length, written };
+}
+
+/** e.g. "Collected 1234 events (56 new). Claude 800, Codex 400. Gemini failed: ..." */
+export function formatRefreshSummary(result: RefreshResult): string {
+  const perCollector = result.runs
+    .map(({ collector, events }) => `${collector.label} ${events.length}`)
+    .join(", ");
+  const failed = result.failures
+    .map(({ collector, message }) => ` ${collector.label} failed: ${message}`)
+    .join("");
+  return `Collected ${result.collected} events (${result.written} new).${perCollector ? ` ${perCollector}.` : ""}${failed}`;
+}
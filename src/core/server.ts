@@ -0,0 +1,253 @@
+import http from "node:http";
+import { DateTime } from "luxon";
+import {
+  BREAKDOWN_KEYS,
+  BreakdownKey,
+  Summary,
+  Totals,
+  aggregateEvents,
+  buildDailySeries,
+  eventBreakdownValue,
+  isBreakdownKey,
+  loadEventsForRange,
+} from "./aggregate.js";
+import { Summaries, loadSummaries } from "./snapshots.js";
+import { readSyncState } from "./state.js";
+import { EventQuery, queryEvents } from "./storage.js";
+
+export interface ApiOptions {
+  timezone: string;
+  /** Clock for window boundaries (default: now). */
+  now?: () => DateTime;
+  /**
+   * The one browser origin allowed to read responses cross-origin. Without
+   * it no CORS header is sent, so web pages can't read local spend data.
+   */
+  corsOrigin?: string;
+  /** The interface the server listens on; also accepted as the Host header. */
+  host?: string;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+const WINDOWS = ["today", "mtd", "ytd", "all"] as const;
+type SummaryWindow = (typeof WINDOWS)[number];
+
+const FILTERS = ["provider", "source", "model", "project", "billing"] as const;
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/** An error reported to the client as a 400 rather than a 500. */
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+function isWindow(value: string): value is SummaryWindow {
+  return (WINDOWS as readonly string[]).includes(value);
+}
+
+/** Dates are local days in the reporting timezone; `to` days are inclusive. */
+function parseTime(
+  value: string | null,
+  name: string,
+  timezone: string,
+  edge: "start" | "end"
+): DateTime | null {
+  if (!value) return null;
+  const dt = DateTime.fromISO(value, { zone: timezone });
+  if (!dt.isValid) throw badRequest(`Invalid ${name}: ${value}`);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return edge === "start" ? dt.startOf("day") : dt.endOf("day");
+  }
+  return dt;
+}
+
+function parseRange(
+  params: URLSearchParams,
+  timezone: string,
+  now: DateTime,
+  defaultDays: number
+): { from: DateTime; to: DateTime } {
+  const to = parseTime(params.get("to"), "to", timezone, "end") ?? now;
+  const from =
+    parseTime(params.get("from"), "from", timezone, "start") ??
+    to.minus({ days: defaultDays - 1 }).startOf("day");
+  if (from > to) throw badRequest("from must be before to");
+  return { from, to };
+}
+
+function parseFilters(params: URLSearchParams): EventQuery {
+  const query: EventQuery = {};
+  for (const key of FILTERS) {
+    const value = params.get(key);
+    if (value) query[key] = value;
+  }
+  return query;
+}
+
+function parseBreakdownKey(value: string | null): BreakdownKey | null {
+  if (!value) return null;
+  if (!isBreakdownKey(value)) {
+    throw badRequest(`Unknown breakdown: ${value} (expected ${BREAKDOWN_KEYS.join(", ")})`);
+  }
+  return value;
+}
+
+/** Breakdown buckets as an array, most expensive first. */
+function rankBreakdown(breakdown: Record<string, Totals>): Array<{ key: string } & Totals> {
+  return Object.entries(breakdown)
+    .map(([key, totals]) => ({ key, ...totals }))
+    .sort((a, b) => b.final_usd - a.final_usd);
+}
+
+async function loadWindow(
+  params: URLSearchParams,
+  options: ApiOptions,
+  now: DateTime,
+  summaries: () => Promise<Summaries>
+): Promise<Summary> {
+  if (params.has("from") || params.has("to")) {
+    const { from, to } = parseRange(params, options.timezone, now, 1);
+    const events = await loadEventsForRange(options.timezone, from, to);
+    return aggregateEvents(events, options.timezone, from, to);
+  }
+  const window = params.get("window") ?? "mtd";
+  if (!isWindow(window)) {
+    throw badRequest(`Unknown window: ${window} (expected ${WINDOWS.join(", ")})`);
+  }
+  return (await summaries())[window];
+}
+
+/** Route a GET request path (with query string) to its JSON response. */
+export async function handleApiRequest(
+  requestUrl: string,
+  options: ApiOptions
+): Promise<ApiResponse> {
+  const url = new URL(requestUrl, "http://localhost");
+  const params = url.searchParams;
+  const now = (options.now?.() ?? DateTime.now()).setZone(options.timezone);
+  const summaries = () => loadSummaries(options.timezone, now);
+
+  try {
+    if (url.pathname === "/healthz") {
+      const sync = readSyncState();
+      return {
+        status: 200,
+        body: { ok: true, timezone: options.timezone, lastRun: sync.lastRun ?? {} },
+      };
+    }
+
+    if (url.pathname === "/summary") {
+      const window = params.get("window");
+      if (!window && !params.has("from") && !params.has("to")) {
+        return { status: 200, body: await summaries() };
+      }
+      return { status: 200, body: await loadWindow(params, options, now, summaries) };
+    }
+
+    if (url.pathname === "/events") {
+      const { from, to } = parseRange(params, options.timezone, now, 1);
+      const events = await queryEvents({ ...parseFilters(params), from, to });
+      const limit = Number(params.get("limit") ?? 0);
+      return {
+        status: 200,
+        body: {
+          from: from.toISO(),
+          to: to.toISO(),
+          count: events.length,
+          events: limit > 0 ? events.slice(-limit) : events,
+        },
+      };
+    }
+
+    const breakdownMatch = /^\/breakdown\/([^/]+)$/.exec(url.pathname);
+    if (breakdownMatch) {
+      const key = parseBreakdownKey(decodeURIComponent(breakdownMatch[1]));
+      const summary = await loadWindow(params, options, now, summaries);
+      return {
+        status: 200,
+        body: {
+          from: summary.from,
+          to: summary.to,
+          kind: key,
+          buckets: rankBreakdown(summary.breakdowns[key as BreakdownKey]),
+        },
+      };
+    }
+
+    if (url.pathname === "/timeseries") {
+      const { from, to } = parseRange(params, options.timezone, now, 30);
+      const by = parseBreakdownKey(params.get("by"));
+      const events = await queryEvents({ ...parseFilters(params), from, to });
+      const series: Record<string, ReturnType<typeof buildDailySeries>> = {
+        total: buildDailySeries(events, options.timezone, from, to),
+      };
+      if (by) {
+        const buckets = new Set(events.map((event) => eventBreakdownValue(event, by)));
+        for (const bucket of buckets) {
+          const bucketEvents = events.filter((event) => eventBreakdownValue(event, by) === bucket);
+          series[bucket] = buildDailySeries(bucketEvents, options.timezone, from, to);
+        }
+      }
+      return { status: 200, body: { from: from.toISO(), to: to.toISO(), by, series } };
+    }
+
+    return { status: 404, body: { error: `Not found: ${url.pathname}` } };
+  } catch (err) {
+    const status = (err as { status?: number }).status;
+    if (status === 400) return { status, body: { error: (err as Error).message } };
+    throw err;
+  }
+}
+
+/**
+ * Whether a Host header names this server. A DNS rebinding page reaches
+ * 127.0.0.1 under its own domain, which shows up here.
+ */
+function isAllowedHost(header: string | undefined, port: number | undefined, boundHost?: string): boolean {
+  if (!header) return false;
+  let url: URL;
+  try {
+    url = new URL(`http://${header}`);
+  } catch {
+    return false;
+  }
+  const allowed = boundHost
+    ? [...LOCAL_HOSTS, boundHost.includes(":") ? `[${boundHost}]` : boundHost.toLowerCase()]
+    : LOCAL_HOSTS;
+  return allowed.includes(url.hostname) && (url.port || "80") === String(port);
+}
+
+/** A read-only JSON API over stored events and summaries. */
+export function createApiServer(options: ApiOptions): http.Server {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      const headers: Record<string, string> = { "Content-Type": "application/json; charset=utf-8" };
+      if (options.corsOrigin) {
+        headers.Vary = "Origin";
+        if (req.headers.origin === options.corsOrigin) {
+          headers["Access-Control-Allow-Origin"] = options.corsOrigin;
+        }
+      }
+      res.writeHead(status, headers);
+      res.end(JSON.stringify(body));
+    };
+
+    if (!isAllowedHost(req.headers.host, req.socket.localPort, options.host)) {
+      send(403, { error: "Unexpected Host header" });
+      return;
+    }
+
+    if (req.method !== "GET") {
+      send(405, { error: "Only GET is supported" });
+      return;
+    }
+
+    handleApiRequest(req.url ?? "/", options)
+      .then((response) => send(response.status, response.body))
+      .catch((err) => send(500, { error: (err as Error).message }));
+  });
+}
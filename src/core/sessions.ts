@@ -0,0 +1,123 @@
+import path from "node:path";
+import { DateTime } from "luxon";
+import { Totals, addTotals, emptyTotals, eventBreakdownValue } from "./aggregate.js";
+import type { UsageEvent, UsageSource } from "./events.js";
+
+export interface SessionModel {
+  model: string;
+  turns: number;
+  final_usd: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  source: UsageSource;
+  project: string;
+  start: string;
+  end: string;
+  duration_ms: number;
+  /** Events in the session: one per model request. */
+  turns: number;
+  /** Models used, most expensive first. */
+  models: SessionModel[];
+  totals: Totals;
+  /** The transcript or log the session was read from. */
+  file: string | null;
+}
+
+export type SessionSort = "cost" | "start" | "duration" | "turns";
+
+export const SESSION_SORTS: SessionSort[] = ["cost", "start", "duration", "turns"];
+
+export function isSessionSort(value: string): value is SessionSort {
+  return (SESSION_SORTS as string[]).includes(value);
+}
+
+/**
+ * The session an event belongs to. Events stored before collectors set
+ * `session` fall back to the ids they kept in meta.
+ */
+export function eventSession(event: UsageEvent): string | null {
+  if (event.session) return event.session;
+  const meta = event.meta ?? {};
+  for (const key of ["session", "sessionId"]) {
+    const value = meta[key];
+    if (typeof value === "string" && value) return value;
+  }
+  if (event.source === "claude_code" && typeof meta.file === "string") {
+    return path.basename(meta.file, ".jsonl");
+  }
+  return null;
+}
+
+function sessionKey(event: UsageEvent, session: string): string {
+  return `${event.source}\u0000${session}`;
+}
+
+/** Group events into sessions; events without a session are left out. */
+export function summarizeSessions(events: UsageEvent[], sort: SessionSort = "cost"): SessionSummary[] {
+  const groups = new Map<string, { id: string; events: UsageEvent[] }>();
+  for (const event of events) {
+    const id = eventSession(event);
+    if (!id) continue;
+    const key = sessionKey(event, id);
+    const group = groups.get(key) ?? { id, events: [] };
+    group.events.push(event);
+    groups.set(key, group);
+  }
+
+  const sessions = [...groups.values()].map(({ id, events: sessionEvents }) => {
+    const sorted = [...sessionEvents].sort((a, b) => a.ts.localeCompare(b.ts));
+    const totals = emptyTotals();
+    const models = new Map<string, SessionModel>();
+    const projects = new Map<string, number>();
+    for (const event of sorted) {
+      addTotals(totals, event);
+      const model = eventBreakdownValue(event, "model");
+      const entry = models.get(model) ?? { model, turns: 0, final_usd: 0 };
+      entry.turns += 1;
+      entry.final_usd += event.cost.final_usd ?? 0;
+      models.set(model, entry);
+      const project = eventBreakdownValue(event, "project");
+      projects.set(project, (projects.get(project) ?? 0) + 1);
+    }
+
+    const start = sorted[0].ts;
+    const end = sorted[sorted.length - 1].ts;
+    const file = sorted.find((event) => typeof event.meta?.file === "string")?.meta.file;
+    return {
+      id,
+      source: sorted[0].source,
+      // A session that moved between projects is listed under the one it spent most turns in.
+      project: [...projects].sort((a, b) => b[1] - a[1])[0][0],
+      start,
+      end,
+      duration_ms: DateTime.fromISO(end).toMillis() - DateTime.fromISO(start).toMillis(),
+      turns: sorted.length,
+      models: [...models.values()].sort((a, b) => b.final_usd - a.final_usd || b.turns - a.turns),
+      totals,
+      file: typeof file === "string" ? file : null,
+    };
+  });
+
+  const order: Record<SessionSort, (a: SessionSummary, b: SessionSummary) => number> = {
+    cost: (a, b) => b.totals.final_usd - a.totals.final_usd,
+    start: (a, b) => b.start.localeCompare(a.start),
+    duration: (a, b) => b.duration_ms - a.duration_ms,
+    turns: (a, b) => b.turns - a.turns,
+  };
+  return sessions.sort((a, b) => order[sort](a, b) || b.start.localeCompare(a.start));
+}
+
+/** Sessions whose id is `id`, or else starts with it. */
+export function findSessions(sessions: SessionSummary[], id: string): SessionSummary[] {
+  const exact = sessions.filter((session) => session.id === id);
+  return exact.length > 0 ? exact : sessions.filter((session) => session.id.startsWith(id));
+}
+
+/** The events of one session, oldest first. */
+export function sessionEvents(events: UsageEvent[], session: SessionSummary): UsageEvent[] {
+  return events
+    .filter((event) => event.source === session.source && eventSession(event) === session.id)
+    .sort((a, b) => a.ts.localeCompare(b.ts));
+}
@@ -0,0 +1,237 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DateTime } from "luxon";
+import { Summary, aggregateEvents, mergeSummaries } from "./aggregate.js";
+import { UsageEvent } from "./events.js";
+import { getPaths } from "./paths.js";
+import {
+  eventDayFingerprint,
+  listEventDays,
+  loadEventsForDay,
+} from "./storage.js";
+
+/** Bump when the Summary shape changes so stale snapshots are rebuilt. */
+const SNAPSHOT_VERSION = 2;
+
+/**
+ * A pre-aggregated summary of one local day. Event files are bucketed by the
+ * day an event was written in, which can differ from the reporting timezone
+ * by up to a day either way, so each snapshot depends on three event files.
+ */
+export interface DaySnapshot {
+  version: number;
+  day: string;
+  timezone: string;
+  sources: Record<string, string>;
+  summary: Summary;
+}
+
+export interface Summaries {
+  today: Summary;
+  mtd: Summary;
+  ytd: Summary;
+  all: Summary;
+}
+
+function snapshotPath(day: string): string {
+  const { snapshotsDir } = getPaths();
+  return path.join(snapshotsDir, `${day}.summary.json`);
+}
+
+function sourceDays(day: string): string[] {
+  const date = DateTime.fromISO(day);
+  return [date.minus({ days: 1 }), date, date.plus({ days: 1 })].map(
+    (d) => d.toISODate() ?? ""
+  );
+}
+
+function currentSources(day: string): Record<string, string> {
+  const sources: Record<string, string> = {};
+  for (const sourceDay of sourceDays(day)) {
+    const fingerprint = eventDayFingerprint(sourceDay);
+    if (fingerprint) sources[sourceDay] = fingerprint;
+  }
+  return sources;
+}
+
+function sameSources(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => a[key] === b[key]);
+}
+
+function dayBounds(day: string, timezone: string): { from: DateTime; to: DateTime } {
+  const start = DateTime.fromISO(day, { zone: timezone }).startOf("day");
+  return { from: start, to: start.endOf("day") };
+}
+
+/** Read a day's snapshot, or null if it is missing or out of date. */
+export function readSnapshot(
+  day: string,
+  timezone: string,
+  sources: Record<string, string> = currentSources(day)
+): DaySnapshot | null {
+  const filePath = snapshotPath(day);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(filePath, "utf8")) as DaySnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) return null;
+    if (snapshot.timezone !== timezone) return null;
+    if (!sameSources(snapshot.sources, sources)) return null;
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
+
+export async function buildDaySnapshot(
+  day: string,
+  timezone: string,
+  sources: Record<string, string> = currentSources(day)
+): Promise<DaySnapshot> {
+  const events: UsageEvent[] = [];
+  for (const sourceDay of Object.keys(sources)) {
+    events.push(...(await loadEventsForDay(sourceDay)));
+  }
+  const { from, to } = dayBounds(day, timezone);
+  return {
+    version: SNAPSHOT_VERSION,
+    day,
+    timezone,
+    sources,
+    summary: aggregateEvents(events, timezone, from, to),
+  };
+}
+
+export function writeSnapshot(snapshot: DaySnapshot): void {
+  const filePath = snapshotPath(snapshot.day);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(snapshot));
+}
+
+/** Every local day that stored events can fall on, in ascending order. */
+function snapshotDays(): string[] {
+  const days = new Set<string>();
+  for (const eventDay of listEventDays()) {
+    for (const day of sourceDays(eventDay)) days.add(day);
+  }
+  return Array.from(days).sort();
+}
+
+/**
+ * Rebuild snapshots whose event files changed since they were written.
+ * Returns the number of snapshots written.
+ */
+export async function refreshSnapshots(
+  timezone: string,
+  options: { force?: boolean } = {}
+): Promise<number> {
+  let written = 0;
+  for (const day of snapshotDays()) {
+    const sources = currentSources(day);
+    if (!options.force && readSnapshot(day, timezone, sources)) continue;
+    writeSnapshot(await buildDaySnapshot(day, timezone, sources));
+    written += 1;
+  }
+  return written;
+}
+
+/**
+ * Per-day summaries between two local dates. Valid snapshots are used as-is;
+ * days without one are aggregated from raw events but not written back.
+ */
+export async function loadDailySummaries(
+  timezone: string,
+  from: string,
+  to: string
+): Promise<Map<string, Summary>> {
+  const summaries = new Map<string, Summary>();
+  for (const day of snapshotDays()) {
+    if (day < from || day > to) continue;
+    const sources = currentSources(day);
+    if (Object.keys(sources).length === 0) continue;
+    const snapshot =
+      readSnapshot(day, timezone, sources) ??
+      (await buildDaySnapshot(day, timezone, sources));
+    summaries.set(day, snapshot.summary);
+  }
+  return summaries;
+}
+
+function collect(
+  daily: Map<string, Summary>,
+  timezone: string,
+  from: DateTime,
+  to: DateTime
+): Summary {
+  const fromDay = from.setZone(timezone).toISODate() ?? "";
+  const toDay = to.setZone(timezone).toISODate() ?? "";
+  const parts: Summary[] = [];
+  for (const [day, summary] of daily) {
+    if (day >= fromDay && day <= toDay) parts.push(summary);
+  }
+  return mergeSummaries(parts, timezone, from, to);
+}
+
+export async function loadSummaries(
+  timezone: string,
+  now: DateTime
+): Promise<Summaries> {
+  const local = now.setZone(timezone);
+  const startOfDay = local.startOf("day");
+  const startOfMonth = local.startOf("month");
+  const startOfYear = local.startOf("year");
+
+  const eventDays = listEventDays();
+  const earliest =
+    eventDays.length > 0
+      ? DateTime.fromISO(eventDays[0], { zone: timezone }).minus({ days: 1 })
+      : startOfDay;
+
+  const daily = await loadDailySummaries(
+    timezone,
+    earliest.toISODate() ?? "",
+    local.toISODate() ?? ""
+  );
+
+  return {
+    today: collect(daily, timezone, startOfDay, local),
+    mtd: collect(daily, timezone, startOfMonth, local),
+    ytd: collect(daily, timezone, startOfYear, local),
+    all: collect(daily, timezone, earliest < startOfDay ? earliest : startOfDay, local),
+  };
+}
+
+/**
+ * One summary for from..to, built from daily snapshots. A first or last day
+ * the window only partly covers, such as today, is summed from raw events up
+ * to the exact time so running windows compare like for like.
+ */
+export async function loadRangeSummary(
+  timezone: string,
+  from: DateTime,
+  to: DateTime
+): Promise<Summary> {
+  const start = from.setZone(timezone);
+  const end = to.setZone(timezone);
+  const partial = new Set<string>();
+  if (start > start.startOf("day")) partial.add(start.toISODate() ?? "");
+  if (end < end.endOf("day")) partial.add(end.toISODate() ?? "");
+
+  const daily = await loadDailySummaries(timezone, start.toISODate() ?? "", end.toISODate() ?? "");
+  const parts: Summary[] = [];
+  for (const [day, summary] of daily) {
+    if (!partial.has(day)) parts.push(summary);
+  }
+  for (const day of partial) {
+    const events: UsageEvent[] = [];
+    for (const sourceDay of Object.keys(currentSources(day))) {
+      events.push(...(await loadEventsForDay(sourceDay)));
+    }
+    const bounds = dayBounds(day, timezone);
+    parts.push(
+      aggregateEvents(events, timezone, DateTime.max(start, bounds.from), DateTime.min(end, bounds.to))
+    );
+  }
+  return mergeSummaries(parts, timezone, from, to);
+}
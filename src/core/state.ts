@@ -3,8 +3,13 @@ import path from "node:path";
 import { getPaths } from "./paths.js";
 
 export interface SyncState {
+  /** When each collector last ran; collectors that were skipped keep their old time. */
   lastRun?: Record<string, string>;
+  /** When the last refresh finished, whichever collectors it ran. */
+  lastRefresh?: string;
   counts?: Record<string, number>;
+  /** One-time storage migrations that have already run. */
+  migrations?: string[];
 }
 
 export interface EtagState {
@@ -25,6 +30,13 @@ export function readSyncState(): SyncState {
   }
 }
 
+/** The last refresh time, falling back to the newest collector run for older state files. */
+export function lastRefreshTime(state: SyncState): string | null {
+  if (state.lastRefresh) return state.lastRefresh;
+  const runs = Object.values(state.lastRun ?? {}).sort();
+  return runs.length > 0 ? runs[runs.length - 1] : null;
+}
+
 export function writeSyncState(state: SyncState): void {
   const { stateDir } = getPaths();
   fs.mkdirSync(stateDir, { recursive: true });
@@ -0,0 +1,90 @@
+import { DateTime } from "luxon";
+import { UsageEvent } from "./events.js";
+
+export type StorageBackendKind = "jsonl" | "sqlite";
+
+export const STORAGE_BACKENDS: StorageBackendKind[] = ["jsonl", "sqlite"];
+
+/** Filters for stored events. Dimension values match `status --breakdown` buckets. */
+export interface EventQuery {
+  from?: DateTime;
+  to?: DateTime;
+  provider?: string;
+  source?: string;
+  model?: string;
+  project?: string;
+  billing?: string;
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /** Store events whose id isn't stored yet; returns how many were new. */
+  writeEvents(events: UsageEvent[]): Promise<number>;
+  /** Replace everything stored on the days these events fall on. */
+  overwriteEvents(events: UsageEvent[]): Promise<number>;
+  /** Remove every event stored for the given days. */
+  clearDays(days: string[]): Promise<void>;
+  loadAll(): Promise<UsageEvent[]>;
+  loadDay(day: string): Promise<UsageEvent[]>;
+  query(query: EventQuery): Promise<UsageEvent[]>;
+  /** Days (YYYY-MM-DD) that have stored events, in ascending order. */
+  listDays(): string[];
+  /** Changes whenever the stored events for a day change; null if there are none. */
+  dayFingerprint(day: string): string | null;
+  close(): void;
+}
+
+export function isStorageBackendKind(value: string): value is StorageBackendKind {
+  return (STORAGE_BACKENDS as string[]).includes(value);
+}
+
+/** The day an event is stored under. */
+export function eventDay(event: UsageEvent): string | null {
+  return DateTime.fromISO(event.ts).toISODate();
+}
+
+export function groupEventsByDay(events: UsageEvent[]): Map<string, UsageEvent[]> {
+  const grouped = new Map<string, UsageEvent[]>();
+  for (const event of events) {
+    const day = eventDay(event);
+    if (!day) continue;
+    const bucket = grouped.get(day) ?? [];
+    bucket.push(event);
+    grouped.set(day, bucket);
+  }
+  return grouped;
+}
+
+/** Indexed dimensions of an event, bucketed the same way as report breakdowns. */
+export interface EventDimensions {
+  provider: string;
+  source: string;
+  model: string;
+  project: string;
+  billing: string;
+}
+
+export function eventDimensions(event: UsageEvent): EventDimensions {
+  return {
+    provider: event.provider,
+    source: event.source,
+    model: event.model || "unknown",
+    project: event.project.name || event.project.id || "unassigned",
+    billing: (event.meta?.billing as string) ?? "estimate",
+  };
+}
+
+export function matchesEventQuery(event: UsageEvent, query: EventQuery): boolean {
+  if (query.from || query.to) {
+    const ts = DateTime.fromISO(event.ts);
+    if (query.from && ts < query.from) return false;
+    if (query.to && ts > query.to) return false;
+  }
+  const dimensions = eventDimensions(event);
+  if (query.provider && dimensions.provider !== query.provider) return false;
+  if (query.source && dimensions.source !== query.source) return false;
+  if (query.model && dimensions.model !== query.model) return false;
+  if (query.project && dimensions.project !== query.project) return false;
+  if (query.billing && dimensions.billing !== query.billing) return false;
+  return true;
+}
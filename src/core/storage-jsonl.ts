@@ -0,0 +1,107 @@
+import fs from "node:fs";
+import path from "node:path";
+import { appendJsonl, readJsonl, writeJsonl, UsageEvent } from "./events.js";
+import { getPaths } from "./paths.js";
+import {
+  EventQuery,
+  StorageBackend,
+  groupEventsByDay,
+  matchesEventQuery,
+} from "./storage-backend.js";
+
+function dayFilePath(day: string): string {
+  const { eventsDir } = getPaths();
+  return path.join(eventsDir, `${day}.jsonl`);
+}
+
+function listDays(): string[] {
+  const { eventsDir } = getPaths();
+  if (!fs.existsSync(eventsDir)) return [];
+  return fs
+    .readdirSync(eventsDir)
+    .map((file) => /^(\d{4}-\d{2}-\d{2})\.jsonl$/.exec(file)?.[1])
+    .filter((day): day is string => Boolean(day))
+    .sort();
+}
+
+/** Events stored as one JSONL file per day under the events directory. */
+export function createJsonlBackend(): StorageBackend {
+  return {
+    kind: "jsonl",
+
+    async writeEvents(events) {
+      let written = 0;
+      for (const [day, dayEvents] of groupEventsByDay(events)) {
+        const filePath = dayFilePath(day);
+        const existing = await readJsonl<UsageEvent>(filePath);
+        const seen = new Set(existing.map((event) => event.id));
+
+        for (const event of dayEvents) {
+          if (seen.has(event.id)) continue;
+          appendJsonl(filePath, event);
+          seen.add(event.id);
+          written += 1;
+        }
+      }
+      return written;
+    },
+
+    async overwriteEvents(events) {
+      let written = 0;
+      for (const [day, dayEvents] of groupEventsByDay(events)) {
+        writeJsonl(dayFilePath(day), dayEvents);
+        written += dayEvents.length;
+      }
+      return written;
+    },
+
+    async clearDays(days) {
+      for (const day of days) {
+        fs.rmSync(dayFilePath(day), { force: true });
+      }
+    },
+
+    async loadAll() {
+      const allEvents: UsageEvent[] = [];
+      for (const day of listDays()) {
+        allEvents.push(...(await readJsonl<UsageEvent>(dayFilePath(day))));
+      }
+      return allEvents;
+    },
+
+    async loadDay(day) {
+      return readJsonl<UsageEvent>(dayFilePath(day));
+    },
+
+    async query(query: EventQuery) {
+      // Files are bucketed by the writer's local day, so pad the range by a
+      // day on each side and filter on the exact timestamp.
+      const days = listDays();
+      const first = query.from?.minus({ days: 1 }).toISODate() ?? days[0];
+      const last = query.to?.plus({ days: 1 }).toISODate() ?? days[days.length - 1];
+
+      const events: UsageEvent[] = [];
+      for (const day of days) {
+        if (day < first || day > last) continue;
+        const dayEvents = await readJsonl<UsageEvent>(dayFilePath(day));
+        for (const event of dayEvents) {
+          if (matchesEventQuery(event, query)) events.push(event);
+        }
+      }
+      return events;
+    },
+
+    listDays,
+
+    dayFingerprint(day) {
+      const filePath = dayFilePath(day);
+      if (!fs.existsSync(filePath)) return null;
+      const stats = fs.statSync(filePath);
+      return `${stats.size}:${Math.floor(stats.mtimeMs)}`;
+    },
+
+    close() {
+      // Nothing to release.
+    },
+  };
+}
@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DateTime } from "luxon";
+import type Database from "better-sqlite3";
+import { UsageEvent } from "./events.js";
+import { getPaths } from "./paths.js";
+import {
+  EventQuery,
+  StorageBackend,
+  eventDimensions,
+  groupEventsByDay,
+} from "./storage-backend.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+  id TEXT PRIMARY KEY,
+  ts TEXT NOT NULL,
+  ts_ms INTEGER NOT NULL,
+  day TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  source TEXT NOT NULL,
+  model TEXT NOT NULL,
+  project TEXT NOT NULL,
+  billing TEXT NOT NULL,
+  final_usd REAL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS events_ts ON events (ts_ms);
+CREATE INDEX IF NOT EXISTS events_day ON events (day);
+CREATE INDEX IF NOT EXISTS events_provider ON events (provider, ts_ms);
+CREATE INDEX IF NOT EXISTS events_source ON events (source, ts_ms);
+CREATE INDEX IF NOT EXISTS events_model ON events (model, ts_ms);
+CREATE INDEX IF NOT EXISTS events_project ON events (project, ts_ms);
+CREATE INDEX IF NOT EXISTS events_billing ON events (billing, ts_ms);
+CREATE TABLE IF NOT EXISTS day_revisions (
+  day TEXT PRIMARY KEY,
+  revision INTEGER NOT NULL
+);
+`;
+
+function eventRow(event: UsageEvent, day: string): unknown[] {
+  const dimensions = eventDimensions(event);
+  return [
+    event.id,
+    event.ts,
+    DateTime.fromISO(event.ts).toMillis(),
+    day,
+    dimensions.provider,
+    dimensions.source,
+    dimensions.model,
+    dimensions.project,
+    dimensions.billing,
+    event.cost.final_usd,
+    JSON.stringify(event),
+  ];
+}
+
+interface EventRow {
+  data: string;
+}
+
+function parseRows(rows: EventRow[]): UsageEvent[] {
+  return rows.map((row) => JSON.parse(row.data) as UsageEvent);
+}
+
+async function loadDriver(): Promise<typeof Database> {
+  try {
+    const mod = await import("better-sqlite3");
+    return mod.default;
+  } catch (err) {
+    throw new Error(
+      `SQLite storage needs the optional better-sqlite3 dependency (${String(err)}). Reinstall thinktax with optional dependencies or switch back to storage.backend = "jsonl".`
+    );
+  }
+}
+
+/** Events stored in a single SQLite database with indexed reporting columns. */
+export async function openSqliteBackend(): Promise<StorageBackend> {
+  const Driver = await loadDriver();
+  const { eventsDb } = getPaths();
+  fs.mkdirSync(path.dirname(eventsDb), { recursive: true });
+
+  const db = new Driver(eventsDb);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const insertIgnore = db.prepare(
+    "INSERT OR IGNORE INTO events (id, ts, ts_ms, day, provider, source, model, project, billing, final_usd, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  );
+  const insertReplace = db.prepare(
+    "INSERT OR REPLACE INTO events (id, ts, ts_ms, day, provider, source, model, project, billing, final_usd, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  );
+  const deleteDay = db.prepare("DELETE FROM events WHERE day = ?");
+  const bumpRevision = db.prepare(
+    "INSERT INTO day_revisions (day, revision) VALUES (?, 1) ON CONFLICT (day) DO UPDATE SET revision = revision + 1"
+  );
+
+  const write = db.transaction((grouped: Map<string, UsageEvent[]>) => {
+    let written = 0;
+    for (const [day, dayEvents] of grouped) {
+      let changed = 0;
+      for (const event of dayEvents) {
+        changed += insertIgnore.run(...eventRow(event, day)).changes;
+      }
+      if (changed > 0) bumpRevision.run(day);
+      written += changed;
+    }
+    return written;
+  });
+
+  const overwrite = db.transaction((grouped: Map<string, UsageEvent[]>) => {
+    let written = 0;
+    for (const [day, dayEvents] of grouped) {
+      deleteDay.run(day);
+      for (const event of dayEvents) {
+        insertReplace.run(...eventRow(event, day));
+        written += 1;
+      }
+      bumpRevision.run(day);
+    }
+    return written;
+  });
+
+  const clear = db.transaction((days: string[]) => {
+    for (const day of days) {
+      if (deleteDay.run(day).changes > 0) bumpRevision.run(day);
+    }
+  });
+
+  return {
+    kind: "sqlite",
+
+    async writeEvents(events) {
+      return write(groupEventsByDay(events));
+    },
+
+    async overwriteEvents(events) {
+      return overwrite(groupEventsByDay(events));
+    },
+
+    async clearDays(days) {
+      clear(days);
+    },
+
+    async loadAll() {
+      return parseRows(db.prepare<EventRow>("SELECT data FROM events ORDER BY ts_ms").all());
+    },
+
+    async loadDay(day) {
+      return parseRows(
+        db.prepare<EventRow>("SELECT data FROM events WHERE day = ? ORDER BY ts_ms").all(day)
+      );
+    },
+
+    async query(query: EventQuery) {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      if (query.from) {
+        clauses.push("ts_ms >= ?");
+        params.push(query.from.toMillis());
+      }
+      if (query.to) {
+        clauses.push("ts_ms <= ?");
+        params.push(query.to.toMillis());
+      }
+      for (const column of ["provider", "source", "model", "project", "billing"] as const) {
+        const value = query[column];
+        if (value) {
+          clauses.push(`${column} = ?`);
+          params.push(value);
+        }
+      }
+      const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+      return parseRows(
+        db.prepare<EventRow>(`SELECT data FROM events ${where} ORDER BY ts_ms`).all(...params)
+      );
+    },
+
+    listDays() {
+      return db
+        .prepare<{ day: string }>("SELECT DISTINCT day FROM events ORDER BY day")
+        .all()
+        .map((row) => row.day);
+    },
+
+    dayFingerprint(day) {
+      const row = db
+        .prepare<{ count: number; revision: number | null }>(
+          "SELECT COUNT(*) AS count, (SELECT revision FROM day_revisions WHERE day = ?) AS revision FROM events WHERE day = ?"
+        )
+        .get(day, day);
+      if (!row || row.count === 0) return null;
+      return `sqlite:${row.revision ?? 0}:${row.count}`;
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -1,73 +1,89 @@
 import fs from "node:fs";
-import path from "node:path";
-import { DateTime } from "luxon";
-import { appendJsonl, readJsonl, writeJsonl, UsageEvent } from "./events.js";
+import { UsageEvent } from "./events.js";
 import { getPaths } from "./paths.js";
+import {
+  EventQuery,
+  StorageBackend,
+  StorageBackendKind,
+  eventDay,
+} from "./storage-backend.js";
+import { createJsonlBackend } from "./storage-jsonl.js";
+import { openSqliteBackend } from "./storage-sqlite.js";
 
-export async function writeEvents(events: UsageEvent[]): Promise<number> {
-  if (events.length === 0) return 0;
-  const { eventsDir } = getPaths();
-  const grouped = new Map<string, UsageEvent[]>();
-
-  for (const event of events) {
-    const day = DateTime.fromISO(event.ts).toISODate();
-    if (!day) continue;
-    const bucket = grouped.get(day) ?? [];
-    bucket.push(event);
-    grouped.set(day, bucket);
-  }
+export {
+  STORAGE_BACKENDS,
+  isStorageBackendKind,
+} from "./storage-backend.js";
+export type {
+  EventQuery,
+  StorageBackend,
+  StorageBackendKind,
+} from "./storage-backend.js";
 
-  let written = 0;
-  for (const [day, dayEvents] of grouped) {
-    const filePath = path.join(eventsDir, `${day}.jsonl`);
-    const existing = await readJsonl<UsageEvent>(filePath);
-    const seen = new Set(existing.map((event) => event.id));
+let activeBackend: StorageBackend | null = null;
 
-    for (const event of dayEvents) {
-      if (seen.has(event.id)) continue;
-      appendJsonl(filePath, event);
-      written += 1;
-    }
-  }
+export async function openStorageBackend(
+  kind: StorageBackendKind
+): Promise<StorageBackend> {
+  return kind === "sqlite" ? openSqliteBackend() : createJsonlBackend();
+}
 
-  return written;
+/** Whether `kind` has storage on disk; opening SQLite would create an empty database. */
+export function storageBackendExists(kind: StorageBackendKind): boolean {
+  const { eventsDb, eventsDir } = getPaths();
+  return fs.existsSync(kind === "sqlite" ? eventsDb : eventsDir);
 }
 
-export async function loadAllStoredEvents(): Promise<UsageEvent[]> {
-  const { eventsDir } = getPaths();
-  if (!fs.existsSync(eventsDir)) return [];
+/** Switch the backend used by the storage functions below. */
+export async function useStorageBackend(kind: StorageBackendKind): Promise<void> {
+  if (activeBackend?.kind === kind) return;
+  activeBackend?.close();
+  activeBackend = await openStorageBackend(kind);
+}
 
-  const files = fs.readdirSync(eventsDir).filter((f) => f.endsWith(".jsonl"));
-  const allEvents: UsageEvent[] = [];
+export function getStorageBackend(): StorageBackend {
+  if (!activeBackend) activeBackend = createJsonlBackend();
+  return activeBackend;
+}
 
-  for (const file of files) {
-    const filePath = path.join(eventsDir, file);
-    const events = await readJsonl<UsageEvent>(filePath);
-    allEvents.push(...events);
-  }
+export async function writeEvents(events: UsageEvent[]): Promise<number> {
+  if (events.length === 0) return 0;
+  return getStorageBackend().writeEvents(events);
+}
 
-  return allEvents;
+export async function loadAllStoredEvents(): Promise<UsageEvent[]> {
+  return getStorageBackend().loadAll();
 }
 
 export async function overwriteEvents(events: UsageEvent[]): Promise<number> {
   if (events.length === 0) return 0;
-  const { eventsDir } = getPaths();
-  const grouped = new Map<string, UsageEvent[]>();
+  return getStorageBackend().overwriteEvents(events);
+}
+
+/**
+ * Replace everything in storage with `events`: covered days are rewritten and
+ * days none of them fall on are cleared.
+ */
+export async function replaceAllEvents(events: UsageEvent[]): Promise<number> {
+  const backend = getStorageBackend();
+  const written = events.length > 0 ? await backend.overwriteEvents(events) : 0;
+  const covered = new Set(events.map(eventDay));
+  await backend.clearDays(backend.listDays().filter((day) => !covered.has(day)));
+  return written;
+}
 
-  for (const event of events) {
-    const day = DateTime.fromISO(event.ts).toISODate();
-    if (!day) continue;
-    const bucket = grouped.get(day) ?? [];
-    bucket.push(event);
-    grouped.set(day, bucket);
-  }
+export async function queryEvents(query: EventQuery): Promise<UsageEvent[]> {
+  return getStorageBackend().query(query);
+}
 
-  let written = 0;
-  for (const [day, dayEvents] of grouped) {
-    const filePath = path.join(eventsDir, `${day}.jsonl`);
-    writeJsonl(filePath, dayEvents);
-    written += dayEvents.length;
-  }
+export function listEventDays(): string[] {
+  return getStorageBackend().listDays();
+}
 
-  return written;
+export function eventDayFingerprint(day: string): string | null {
+  return getStorageBackend().dayFingerprint(day);
+}
+
+export async function loadEventsForDay(day: string): Promise<UsageEvent[]> {
+  return getStorageBackend().loadDay(day);
 }
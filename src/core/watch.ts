@@ -0,0 +1,92 @@
+import fs from "node:fs";
+import type { Collector } from "../collectors/registry.js";
+import type { ThinktaxConfig } from "./config.js";
+import { debug, warn } from "./logger.js";
+import { RefreshResult, runRefresh } from "./refresh.js";
+
+export interface WatchOptions {
+  timezone: string;
+  /** Poll interval for collectors that have no directories to watch. */
+  intervalMinutes: number;
+  /** How long to wait for a burst of file changes to settle. */
+  debounceMs?: number;
+  onRefresh?(result: RefreshResult): void;
+}
+
+export interface Watcher {
+  /** Close watchers and timers; resolves once any in-flight refresh finishes. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Keep collecting: refresh a collector when files under its watch paths
+ * change, and on its poll interval. Watched collectors are polled too, in
+ * case the platform drops change events. Refreshes never overlap; changes
+ * that arrive during one are collected right after it.
+ */
+export function watchCollectors(
+  config: ThinktaxConfig,
+  collectors: Collector[],
+  options: WatchOptions
+): Watcher {
+  const debounceMs = options.debounceMs ?? 1000;
+  const dirty = new Set<Collector>();
+  const watchers: fs.FSWatcher[] = [];
+  const timers: NodeJS.Timeout[] = [];
+  let debounce: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+  let stopped = false;
+
+  async function flush(): Promise<void> {
+    debounce = null;
+    if (running || stopped || dirty.size === 0) return;
+    const batch = [...dirty];
+    dirty.clear();
+
+    running = runRefresh(config, batch, { timezone: options.timezone })
+      .then((result) => options.onRefresh?.(result))
+      .catch((err) => warn("Refresh failed:", (err as Error).message))
+      .finally(() => {
+        running = null;
+        if (dirty.size > 0) schedule([]);
+      });
+  }
+
+  function schedule(changed: Collector[]): void {
+    for (const collector of changed) dirty.add(collector);
+    if (stopped || debounce) return;
+    debounce = setTimeout(() => void flush(), debounceMs);
+  }
+
+  for (const collector of collectors) {
+    for (const dir of collector.watchPaths?.(config) ?? []) {
+      if (!fs.existsSync(dir)) continue;
+      try {
+        const watcher = fs.watch(dir, { recursive: true }, () => schedule([collector]));
+        watcher.on("error", (err) => {
+          warn(`Stopped watching ${dir}:`, err.message);
+          watcher.close();
+        });
+        watchers.push(watcher);
+        debug("Watching", dir, "for", collector.name);
+      } catch (err) {
+        warn(`Could not watch ${dir}:`, (err as Error).message);
+      }
+    }
+
+    const minutes = collector.pollMinutes?.(config) ?? options.intervalMinutes;
+    timers.push(setInterval(() => schedule([collector]), minutes * 60_000));
+  }
+
+  schedule(collectors);
+
+  return {
+    async stop() {
+      stopped = true;
+      if (debounce) clearTimeout(debounce);
+      for (const timer of timers) clearInterval(timer);
+      for (const watcher of watchers) watcher.close();
+      await running;
+    },
+  };
+}
@@ -4,21 +4,21 @@ declare module "asciichart" {
     padding?: string;
     height?: number;
     format?: (x: number, i: number) => string;
-    colors?: number[];
+    colors?: string[];
   }
 
   function plot(series: number[] | number[][], config?: PlotConfig): string;
 
-  const black: number;
-  const red: number;
-  const green: number;
-  const yellow: number;
-  const blue: number;
-  const magenta: number;
-  const cyan: number;
-  const white: number;
-  const reset: number;
-  const default_: number;
+  const black: string;
+  const red: string;
+  const green: string;
+  const yellow: string;
+  const blue: string;
+  const magenta: string;
+  const cyan: string;
+  const white: string;
+  const reset: string;
+  const default_: string;
 
   export { plot, PlotConfig, black, red, green, yellow, blue, magenta, cyan, white, reset, default_ };
   export default { plot, black, red, green, yellow, blue, magenta, cyan, white, reset, default: default_ };
@@ -0,0 +1,30 @@
+declare module "better-sqlite3" {
+  interface RunResult {
+    changes: number;
+    lastInsertRowid: number | bigint;
+  }
+
+  interface Statement<Row = unknown> {
+    run(...params: unknown[]): RunResult;
+    get(...params: unknown[]): Row | undefined;
+    all(...params: unknown[]): Row[];
+  }
+
+  interface DatabaseOptions {
+    readonly?: boolean;
+    fileMustExist?: boolean;
+  }
+
+  class Database {
+    constructor(filename: string, options?: DatabaseOptions);
+    prepare<Row = unknown>(sql: string): Statement<Row>;
+    exec(sql: string): this;
+    pragma(source: string): unknown;
+    transaction<Args extends unknown[], Result>(
+      fn: (...args: Args) => Result
+    ): (...args: Args) => Result;
+    close(): this;
+  }
+
+  export default Database;
+}
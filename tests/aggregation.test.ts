@@ -1,14 +1,14 @@
 import { DateTime } from "luxon";
 import { describe, expect, it } from "vitest";
-import { aggregateEvents } from "../src/core/aggregate.js";
+import { aggregateEvents, buildPeriodSeries } from "../src/core/aggregate.js";
 import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
 
-function buildEvent(ts: string, usd: number): UsageEvent {
+function buildEvent(ts: string, usd: number, provider: UsageEvent["provider"] = "openai"): UsageEvent {
   return {
     id: ts,
     ts,
     source: "codex_cli",
-    provider: "openai",
+    provider,
     model: "gpt-test",
     tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
     cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
@@ -36,3 +36,37 @@ describe("aggregation boundaries", () => {
     expect(summary.totals.final_usd).toBeCloseTo(2);
   });
 });
+
+describe("period series", () => {
+  const tz = "UTC";
+  const events = [
+    buildEvent("2026-03-02T10:00:00Z", 1),
+    buildEvent("2026-03-04T10:00:00Z", 2, "anthropic"),
+    buildEvent("2026-03-10T10:00:00Z", 4),
+    buildEvent("2026-03-11T10:00:00Z", 8, "google"),
+  ];
+  const from = DateTime.fromISO("2026-03-01", { zone: tz });
+  const to = DateTime.fromISO("2026-03-14", { zone: tz }).endOf("day");
+
+  it("buckets by week with one series per key, largest first", () => {
+    const { periods, series } = buildPeriodSeries(events, tz, from, to, { period: "week", by: "provider" });
+    expect(periods).toEqual(["2026-02-23", "2026-03-02", "2026-03-09"]);
+    expect(series.map((entry) => [entry.key, entry.values, entry.total])).toEqual([
+      ["google", [0, 0, 8], 8],
+      ["openai", [0, 1, 4], 5],
+      ["anthropic", [0, 2, 0], 2],
+    ]);
+  });
+
+  it("folds small keys into other and keeps running totals", () => {
+    const { periods, series } = buildPeriodSeries(events, tz, from, to, {
+      by: "provider",
+      max: 2,
+      cumulative: true,
+    });
+    expect(periods).toHaveLength(14);
+    expect(series.map((entry) => entry.key)).toEqual(["google", "other"]);
+    expect(series[1].values[periods.indexOf("2026-03-10")]).toBe(7);
+    expect(series[1].total).toBe(7);
+  });
+});
@@ -0,0 +1,59 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { detectAnomalies } from "../src/core/anomalies.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+
+function buildEvent(id: string, ts: string, usd: number, project: string, session: string): UsageEvent {
+  return {
+    id,
+    ts,
+    source: "claude_code",
+    provider: "anthropic",
+    model: "model-test",
+    session,
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: project },
+    meta: { file: `/logs/${session}.jsonl` },
+  };
+}
+
+describe("anomalies", () => {
+  const timezone = "UTC";
+  const options = { zScore: 3, baselineDays: 7, minUsd: 1 };
+  const from = DateTime.fromISO("2026-03-08", { zone: timezone });
+  const to = from.endOf("day");
+
+  // A steady week of $2-3 days, one session per day.
+  const history = Array.from({ length: 7 }, (_, index) =>
+    buildEvent(`h${index}`, `2026-03-0${index + 1}T12:00:00Z`, index % 2 === 0 ? 2 : 3, "web", `s${index}`)
+  );
+
+  it("flags a day, project and session spike with their files", () => {
+    const spike = buildEvent("x", "2026-03-08T09:00:00Z", 40, "web", "big");
+    const anomalies = detectAnomalies([...history, spike], timezone, from, to, options);
+    expect(anomalies.map((anomaly) => [anomaly.kind, anomaly.key])).toEqual([
+      ["day", "2026-03-08"],
+      ["project", "web"],
+      ["session", "big"],
+    ]);
+    expect(anomalies[0].baseline_mean_usd).toBeCloseTo(17 / 7);
+    expect(anomalies[0].z).toBeGreaterThan(3);
+    expect(anomalies.every((anomaly) => anomaly.files[0] === "/logs/big.jsonl")).toBe(true);
+  });
+
+  it("leaves ordinary spend alone and reports new projects without a z-score", () => {
+    const normal = buildEvent("n", "2026-03-08T09:00:00Z", 3, "web", "s7");
+    expect(detectAnomalies([...history, normal], timezone, from, to, options)).toEqual([]);
+
+    const fresh = buildEvent("f", "2026-03-08T10:00:00Z", 5, "api", "s8");
+    const anomalies = detectAnomalies([...history, normal, fresh], timezone, from, to, options, ["project"]);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ key: "api", baseline_mean_usd: 0, z: null });
+  });
+
+  it("skips days with no history", () => {
+    const spike = buildEvent("x", "2026-03-08T09:00:00Z", 40, "web", "big");
+    expect(detectAnomalies([spike], timezone, from, to, options)).toEqual([]);
+  });
+});
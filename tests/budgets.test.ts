@@ -0,0 +1,116 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  budgetState,
+  budgetWindow,
+  evaluateBudget,
+  worstBudgetState,
+} from "../src/core/budgets.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import type { UsageProvider } from "../src/core/events.js";
+
+function buildEvent(ts: string, usd: number, provider: UsageProvider = "openai"): UsageEvent {
+  return {
+    id: `${ts}-${provider}`,
+    ts,
+    source: "codex_cli",
+    provider,
+    model: "gpt-test",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: "thinktax" },
+    meta: { billing: "api" },
+  };
+}
+
+const tz = "America/Los_Angeles";
+const now = DateTime.fromISO("2026-02-18T10:00:00", { zone: tz });
+
+describe("budgetState", () => {
+  it("reports ok below the warning threshold", () => {
+    expect(budgetState(50, 100, 80)).toBe("ok");
+  });
+
+  it("reports warning at the threshold", () => {
+    expect(budgetState(80, 100, 80)).toBe("warning");
+  });
+
+  it("reports exceeded over the limit", () => {
+    expect(budgetState(100.01, 100, 80)).toBe("exceeded");
+  });
+});
+
+describe("budgetWindow", () => {
+  it("covers the whole local month", () => {
+    const window = budgetWindow({ limit: 100 }, tz, now);
+
+    expect(window?.from.toISODate()).toBe("2026-02-01");
+    expect(window?.to.toISODate()).toBe("2026-02-28");
+  });
+
+  it("uses from/to dates for custom windows", () => {
+    const window = budgetWindow(
+      { limit: 100, period: "custom", from: "2026-01-10", to: "2026-01-20" },
+      tz,
+      now
+    );
+
+    expect(window?.from.toISODate()).toBe("2026-01-10");
+    expect(window?.to.toISODate()).toBe("2026-01-20");
+  });
+
+  it("starts weekly windows on the configured weekday", () => {
+    // 2026-02-18 is a Wednesday.
+    const monday = budgetWindow({ limit: 100, period: "week" }, tz, now);
+    const sunday = budgetWindow({ limit: 100, period: "week" }, tz, now, 7);
+
+    expect(monday?.from.toISODate()).toBe("2026-02-16");
+    expect(monday?.to.toISODate()).toBe("2026-02-22");
+    expect(sunday?.from.toISODate()).toBe("2026-02-15");
+    expect(sunday?.to.toISODate()).toBe("2026-02-21");
+  });
+
+  it("rejects custom windows without dates", () => {
+    expect(budgetWindow({ limit: 100, period: "custom" }, tz, now)).toBeNull();
+  });
+});
+
+describe("evaluateBudget", () => {
+  const events = [
+    buildEvent("2026-02-18T08:00:00-08:00", 30, "anthropic"),
+    buildEvent("2026-02-18T09:00:00-08:00", 20, "openai"),
+    buildEvent("2026-02-10T09:00:00-08:00", 40, "anthropic"),
+    buildEvent("2026-01-31T09:00:00-08:00", 500, "anthropic"),
+  ];
+
+  it("sums spend inside the window", () => {
+    const status = evaluateBudget({ limit: 100 }, events, tz, now);
+
+    expect(status?.spent_usd).toBeCloseTo(90);
+    expect(status?.state).toBe("warning");
+    expect(status?.name).toBe("month total");
+  });
+
+  it("filters by scope", () => {
+    const status = evaluateBudget(
+      { limit: 25, period: "day", provider: "anthropic" },
+      events,
+      tz,
+      now
+    );
+
+    expect(status?.spent_usd).toBeCloseTo(30);
+    expect(status?.state).toBe("exceeded");
+    expect(status?.scope).toEqual({ provider: "anthropic" });
+  });
+
+  it("picks the worst state across budgets", () => {
+    const statuses = [
+      evaluateBudget({ limit: 1000 }, events, tz, now)!,
+      evaluateBudget({ limit: 100 }, events, tz, now)!,
+    ];
+
+    expect(worstBudgetState(statuses)).toBe("warning");
+    expect(worstBudgetState([])).toBe("ok");
+  });
+});
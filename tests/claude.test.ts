@@ -0,0 +1,158 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { DateTime } from "luxon";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { collapseClaudeEvents, collectClaude } from "../src/collectors/claude.js";
+import { ThinktaxConfig } from "../src/core/config.js";
+import { UsageEvent, createEventId, emptyCost, emptyProject } from "../src/core/events.js";
+
+function assistantLine(
+  messageId: string,
+  requestId: string,
+  timestamp: string,
+  usage: Record<string, number>,
+  extra: Record<string, unknown> = {}
+): string {
+  return JSON.stringify({
+    type: "assistant",
+    sessionId: "session-1",
+    requestId,
+    timestamp,
+    ...extra,
+    message: { id: messageId, role: "assistant", model: "claude-sonnet-4", usage },
+  });
+}
+
+const usage = { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 100 };
+
+describe("collectClaude", () => {
+  let tmpDir: string;
+  let config: ThinktaxConfig;
+  let previousConfigHome: string | undefined;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thinktax-claude-"));
+    fs.mkdirSync(path.join(tmpDir, "projects", "-repo"), { recursive: true });
+    previousConfigHome = process.env.XDG_CONFIG_HOME;
+    process.env.XDG_CONFIG_HOME = tmpDir;
+    config = { claude: { projectsDir: path.join(tmpDir, "projects") } };
+  });
+
+  afterEach(() => {
+    if (previousConfigHome === undefined) delete process.env.XDG_CONFIG_HOME;
+    else process.env.XDG_CONFIG_HOME = previousConfigHome;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeTranscript(name: string, lines: string[]): string {
+    const filePath = path.join(tmpDir, "projects", "-repo", name);
+    fs.writeFileSync(filePath, lines.join("\n") + "\n");
+    return filePath;
+  }
+
+  it("emits one event per assistant message", async () => {
+    writeTranscript("a.jsonl", [
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:00Z", usage),
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:01Z", { ...usage, output_tokens: 40 }),
+      assistantLine("msg_2", "req_2", "2026-02-02T10:01:00Z", usage),
+    ]);
+
+    const events = await collectClaude(config);
+
+    expect(events).toHaveLength(2);
+    expect(Date.parse(events[0].ts)).toBe(Date.parse("2026-02-02T10:00:00Z"));
+    expect(events[0].tokens).toEqual({ in: 10, out: 40, cache_write: 0, cache_read: 100 });
+    expect(events[0].meta).toMatchObject({ messageId: "msg_1", requestId: "req_1" });
+    expect(events.map((event) => event.session)).toEqual(["session-1", "session-1"]);
+  });
+
+  it("merges messages copied into resumed session files", async () => {
+    writeTranscript("a.jsonl", [assistantLine("msg_1", "req_1", "2026-02-02T10:00:00Z", usage)]);
+    writeTranscript("b.jsonl", [
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:00Z", usage),
+      assistantLine("msg_3", "req_3", "2026-02-03T09:00:00Z", usage),
+    ]);
+
+    const events = await collectClaude(config);
+
+    expect(events.map((event) => event.meta.messageId).sort()).toEqual(["msg_1", "msg_3"]);
+  });
+
+  it("collapses legacy per-line events already in storage", async () => {
+    const lines = [
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:00Z", usage),
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:01Z", usage),
+    ];
+    const filePath = writeTranscript("a.jsonl", lines);
+    // Ids are computed the way the collector used to, from each line.
+    const tokens = { input: 10, output: 5, cacheWrite: 0, cacheRead: 100 };
+    const legacy: UsageEvent[] = lines.map((line) => {
+      const ts = DateTime.fromISO(JSON.parse(line).timestamp).toISO() ?? "";
+      return {
+        id: createEventId({
+          source: "claude_code",
+          ts,
+          model: "claude-sonnet-4",
+          tokens,
+          instanceId: "-repo",
+        }),
+        ts,
+        source: "claude_code",
+        provider: "anthropic",
+        model: "claude-sonnet-4",
+        tokens: { in: 10, out: 5, cache_write: 0, cache_read: 100 },
+        cost: { ...emptyCost(), final_usd: 0.25, mode: "estimated" },
+        project: emptyProject(),
+        meta: { file: filePath },
+      };
+    });
+
+    const result = await collapseClaudeEvents(legacy);
+
+    expect(result.rekeyed).toBe(2);
+    expect(result.unmatched).toBe(0);
+    expect(result.events).toHaveLength(1);
+    expect(result.duplicates).toHaveLength(1);
+    expect(result.events[0].ts).toBe(legacy[0].ts);
+    expect(result.events[0].meta).toMatchObject({ messageId: "msg_1", requestId: "req_1" });
+
+    const [collected] = await collectClaude(config);
+    expect(result.events[0].id).toBe(collected.id);
+  });
+
+  it("attributes usage to the git repository of the working directory", async () => {
+    const repo = path.join(tmpDir, "work", "thinktax");
+    fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+    fs.mkdirSync(path.join(repo, "src"));
+    writeTranscript("a.jsonl", [
+      JSON.stringify({ type: "user", cwd: path.join(repo, "src"), gitBranch: "main" }),
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:00Z", usage),
+      assistantLine("msg_2", "req_2", "2026-02-02T10:01:00Z", usage, {
+        cwd: tmpDir,
+        gitBranch: "",
+      }),
+    ]);
+
+    const events = await collectClaude(config);
+
+    expect(events[0].project).toMatchObject({ name: "thinktax", root: repo });
+    expect(events[0].meta).toMatchObject({ cwd: path.join(repo, "src"), gitBranch: "main" });
+    expect(events[1].project.root).toBe(tmpDir);
+  });
+
+  it("applies pathPrefix mappings to the resolved root", async () => {
+    const repo = path.join(tmpDir, "work", "client-app");
+    fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+    writeTranscript("a.jsonl", [
+      assistantLine("msg_1", "req_1", "2026-02-02T10:00:00Z", usage, { cwd: repo }),
+    ]);
+    config.projects = {
+      mappings: [{ id: "client", name: "Client", match: { pathPrefix: path.join(tmpDir, "work") } }],
+    };
+
+    const [event] = await collectClaude(config);
+
+    expect(event.project).toEqual({ id: "client", name: "Client", root: repo });
+  });
+});
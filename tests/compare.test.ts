@@ -0,0 +1,56 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { aggregateEvents } from "../src/core/aggregate.js";
+import { compareSummaries } from "../src/core/compare.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+
+function buildEvent(id: string, ts: string, usd: number, project: string, model: string): UsageEvent {
+  return {
+    id,
+    ts,
+    source: "claude_code",
+    provider: "anthropic",
+    model,
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: project },
+    meta: {},
+  };
+}
+
+function summarize(label: string, month: string, events: UsageEvent[]) {
+  const from = DateTime.fromISO(month, { zone: "UTC" }).startOf("month");
+  return { label, ...aggregateEvents(events, "UTC", from, from.endOf("month")) };
+}
+
+describe("compareSummaries", () => {
+  const previous = summarize("2026-02", "2026-02", [
+    buildEvent("a", "2026-02-03T10:00:00Z", 20, "web", "sonnet"),
+    buildEvent("b", "2026-02-04T10:00:00Z", 10, "api", "sonnet"),
+  ]);
+  const current = summarize("2026-03", "2026-03", [
+    buildEvent("c", "2026-03-03T10:00:00Z", 25, "web", "sonnet"),
+    buildEvent("d", "2026-03-04T10:00:00Z", 5, "api", "sonnet"),
+    buildEvent("e", "2026-03-05T10:00:00Z", 40, "agents", "opus"),
+  ]);
+
+  it("reports absolute and percent deltas for totals and buckets", () => {
+    const comparison = compareSummaries(current, previous);
+    expect(comparison.totals.final_usd).toEqual({ current: 70, previous: 30, delta: 40, percent: (40 / 30) * 100 });
+    expect(comparison.totals.count.delta).toBe(1);
+    expect(comparison.breakdowns.project.map((bucket) => [bucket.key, bucket.delta, bucket.percent])).toEqual([
+      ["agents", 40, null],
+      ["api", -5, -50],
+      ["web", 5, 25],
+    ]);
+  });
+
+  it("ranks movers by the size of their change and their share of it", () => {
+    const comparison = compareSummaries(current, previous, 2);
+    expect(comparison.movers.project.map((bucket) => [bucket.key, bucket.share])).toEqual([
+      ["agents", 1],
+      ["api", -0.125],
+    ]);
+    expect(comparison.movers.model.map((bucket) => bucket.key)).toEqual(["opus"]);
+  });
+});
@@ -0,0 +1,140 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { collectCodex } from "../src/collectors/codex.js";
+import { FileCursors, readJsonlSince } from "../src/core/cursors.js";
+
+describe("readJsonlSince", () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thinktax-cursors-"));
+    filePath = path.join(tmpDir, "log.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("resumes after the last complete line and keeps state", () => {
+    fs.writeFileSync(filePath, '{"n":1}\n{"n":2}\n{"n":');
+    const first = readJsonlSince<{ n: number }, string>(filePath);
+    expect(first.entries.map((entry) => entry.n)).toEqual([1, 2]);
+    expect(first.resumed).toBe(false);
+
+    fs.appendFileSync(filePath, '3}\n{"n":4}');
+    const second = readJsonlSince<{ n: number }, string>(filePath, {
+      ...first.cursor,
+      state: "carried",
+    });
+    expect(second.entries.map((entry) => entry.n)).toEqual([3, 4]);
+    expect(second.cursor.state).toBe("carried");
+
+    const third = readJsonlSince(filePath, second.cursor);
+    expect(third.entries).toEqual([]);
+    expect(third.cursor.offset).toBe(fs.statSync(filePath).size);
+  });
+
+  it("starts over when the file is truncated", () => {
+    fs.writeFileSync(filePath, '{"n":1}\n{"n":2}\n');
+    const first = readJsonlSince(filePath);
+
+    fs.writeFileSync(filePath, '{"n":9}\n');
+    const second = readJsonlSince<{ n: number }>(filePath, { ...first.cursor, state: "stale" });
+
+    expect(second.resumed).toBe(false);
+    expect(second.cursor.state).toBeUndefined();
+    expect(second.entries.map((entry) => entry.n)).toEqual([9]);
+  });
+
+  it("starts over when the file is rewritten in place past the old offset", () => {
+    fs.writeFileSync(filePath, '{"n":1}\n');
+    const first = readJsonlSince(filePath);
+
+    // Truncate and regrow on the same inode.
+    fs.truncateSync(filePath, 0);
+    fs.appendFileSync(filePath, '{"n":7}\n{"n":8}\n');
+    const second = readJsonlSince<{ n: number }>(filePath, first.cursor);
+
+    expect(fs.statSync(filePath).ino).toBe(first.cursor.ino);
+    expect(second.resumed).toBe(false);
+    expect(second.entries.map((entry) => entry.n)).toEqual([7, 8]);
+  });
+
+  it("returns no lines for a file that has gone away", () => {
+    fs.writeFileSync(filePath, '{"n":1}\n');
+    const first = readJsonlSince(filePath);
+    fs.rmSync(filePath);
+
+    const second = readJsonlSince(filePath, first.cursor);
+    expect(second).toEqual({ entries: [], cursor: first.cursor, resumed: true });
+    expect(readJsonlSince(filePath).entries).toEqual([]);
+  });
+});
+
+describe("collectCodex with cursors", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thinktax-codex-"));
+    fs.mkdirSync(path.join(tmpDir, "sessions"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function tokenCount(
+    timestamp: string,
+    last: { input_tokens: number; output_tokens: number },
+    total: { input_tokens: number; output_tokens: number }
+  ): string {
+    return JSON.stringify({
+      timestamp,
+      type: "event_msg",
+      payload: {
+        type: "token_count",
+        info: { last_token_usage: last, total_token_usage: total },
+      },
+    });
+  }
+
+  it("carries running totals and model across reads", async () => {
+    const filePath = path.join(tmpDir, "sessions", "rollout.jsonl");
+    fs.writeFileSync(
+      filePath,
+      [
+        JSON.stringify({ type: "session_meta", payload: { id: "s1" } }),
+        JSON.stringify({ type: "turn_context", payload: { model: "gpt-5" } }),
+        tokenCount(
+          "2026-02-02T10:00:00Z",
+          { input_tokens: 100, output_tokens: 10 },
+          { input_tokens: 100, output_tokens: 10 }
+        ),
+      ].join("\n") + "\n"
+    );
+    const config = { codex: { home: tmpDir } };
+    const cursors: FileCursors = {};
+
+    const first = await collectCodex(config, cursors);
+    // The delta comes from the previous total, which was read last time.
+    const next = tokenCount(
+      "2026-02-02T10:01:00Z",
+      { input_tokens: 0, output_tokens: 0 },
+      { input_tokens: 150, output_tokens: 30 }
+    );
+    fs.appendFileSync(filePath, next + "\n");
+    const second = await collectCodex(config, cursors);
+
+    expect(first.map((event) => event.tokens.in)).toEqual([100]);
+    expect(second).toHaveLength(1);
+    expect(second[0]).toMatchObject({
+      model: "gpt-5",
+      tokens: { in: 50, out: 20 },
+      meta: { session: "s1" },
+    });
+    expect(await collectCodex(config, cursors)).toEqual([]);
+  });
+});
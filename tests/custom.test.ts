@@ -0,0 +1,135 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { collectCustomSources, parseCsv } from "../src/collectors/custom.js";
+import { CustomSourceConfig, ThinktaxConfig } from "../src/core/config.js";
+import type { FileCursors } from "../src/core/cursors.js";
+
+describe("parseCsv", () => {
+  it("handles quoted fields and CRLF line endings", () => {
+    const raw = 'ts,model,note\r\n2026-02-02,gpt-5,"a, ""b"""\r\n\r\n';
+
+    expect(parseCsv(raw)).toEqual([{ ts: "2026-02-02", model: "gpt-5", note: 'a, "b"' }]);
+  });
+});
+
+describe("collectCustomSources", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thinktax-custom-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function configFor(source: Partial<CustomSourceConfig>): ThinktaxConfig {
+    return {
+      sources: {
+        custom: [
+          {
+            name: "agent",
+            glob: path.join(tmpDir, "*"),
+            format: "jsonl",
+            fields: { timestamp: "ts" },
+            ...source,
+          },
+        ],
+      },
+    };
+  }
+
+  it("maps nested JSONL fields and keeps ids stable", async () => {
+    const repo = path.join(tmpDir, "work", "app");
+    fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+    fs.writeFileSync(
+      path.join(tmpDir, "usage.jsonl"),
+      [
+        { ts: "2026-02-02T10:00:00Z", model: "claude-sonnet-4", cwd: repo, usage: { in: 100, out: 20 } },
+        { ts: 1770026400, model: "gpt-5", usage: { in: 50, out: 5 }, cost: 0.01 },
+        { ts: "not a date", usage: { in: 1 } },
+      ]
+        .map((row) => JSON.stringify(row))
+        .join("\n")
+    );
+    const config = configFor({
+      fields: {
+        timestamp: "ts",
+        model: "model",
+        input: "usage.in",
+        output: "usage.out",
+        cost: "cost",
+        project: "cwd",
+      },
+    });
+
+    const events = await collectCustomSources(config);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      source: "custom",
+      provider: "anthropic",
+      tokens: { in: 100, out: 20, cache_write: 0, cache_read: 0 },
+      project: { name: "app", root: repo },
+      meta: { customSource: "agent" },
+    });
+    expect(events[0].cost.reported_usd).toBeNull();
+    expect(events[1]).toMatchObject({ provider: "openai", cost: { reported_usd: 0.01 } });
+    expect(Date.parse(events[1].ts)).toBe(1770026400 * 1000);
+
+    const again = await collectCustomSources(config);
+    expect(again.map((event) => event.id)).toEqual(events.map((event) => event.id));
+  });
+
+  it("reads CSV columns and nested JSON row arrays", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "usage.csv"),
+      "time,request,model,input,output\n2026-02-02T10:00:00Z,r1,kimi-k2,10,2\n"
+    );
+    fs.writeFileSync(
+      path.join(tmpDir, "usage.json"),
+      JSON.stringify({ data: { requests: [{ time: "2026-02-02T11:00:00Z", request: "r2", input: 5 }] } })
+    );
+    const fields = { timestamp: "time", id: "request", model: "model", input: "input", output: "output" };
+
+    const csv = await collectCustomSources(
+      configFor({ glob: path.join(tmpDir, "*.csv"), format: "csv", fields })
+    );
+    const json = await collectCustomSources(
+      configFor({
+        glob: path.join(tmpDir, "*.json"),
+        format: "json",
+        rows: "data.requests",
+        provider: "google",
+        fields,
+      })
+    );
+
+    expect(csv[0]).toMatchObject({ provider: "moonshot", model: "kimi-k2", tokens: { in: 10, out: 2 } });
+    expect(json[0]).toMatchObject({ provider: "google", model: null, tokens: { in: 5, out: 0 } });
+    expect(csv[0].id).not.toBe(json[0].id);
+  });
+
+  it("reads only appended JSONL rows and keeps identical rows apart", async () => {
+    const filePath = path.join(tmpDir, "usage.jsonl");
+    const row = JSON.stringify({ ts: "2026-02-02T10:00:00Z", usage: { in: 10 } });
+    fs.writeFileSync(filePath, `${row}\n${row}\n`);
+    const config = configFor({ fields: { timestamp: "ts", input: "usage.in" } });
+    const cursors: FileCursors = {};
+
+    const first = await collectCustomSources(config, cursors);
+    expect(first).toHaveLength(2);
+    expect(first[0].id).not.toBe(first[1].id);
+
+    fs.appendFileSync(filePath, `${row}\n`);
+    const second = await collectCustomSources(config, cursors);
+    expect(second).toHaveLength(1);
+    expect(first.map((event) => event.id)).not.toContain(second[0].id);
+
+    // Re-reading from the start yields the same ids.
+    const full = await collectCustomSources(config);
+    expect(full.map((event) => event.id)).toEqual([...first, ...second].map((event) => event.id));
+  });
+});
@@ -0,0 +1,71 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import {
+  buildExportRows,
+  exportColumns,
+  formatExport,
+  unknownExportFields,
+} from "../src/core/export.js";
+
+function buildEvent(
+  id: string,
+  ts: string,
+  provider: UsageEvent["provider"],
+  usd: number,
+  project: string
+): UsageEvent {
+  return {
+    id,
+    ts,
+    source: provider === "anthropic" ? "claude_code" : "codex_cli",
+    provider,
+    model: "model-test",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 10 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: project },
+    meta: { file: `/logs/${id}.jsonl`, nested: { a: 1 } },
+  };
+}
+
+describe("export", () => {
+  const timezone = "America/New_York";
+  const from = DateTime.fromISO("2026-03-01", { zone: timezone }).startOf("day");
+  const to = DateTime.fromISO("2026-03-31", { zone: timezone }).endOf("day");
+  const events = [
+    buildEvent("a", "2026-03-02T03:00:00Z", "anthropic", 2, "web"),
+    buildEvent("b", "2026-03-03T15:00:00Z", "anthropic", 1, "web"),
+    buildEvent("c", "2026-03-10T15:00:00Z", "openai", 4, "api, v2"),
+    buildEvent("d", "2026-04-02T15:00:00Z", "openai", 8, "web"),
+  ];
+
+  it("flattens events with local dates and selected meta", () => {
+    const options = { timezone, from, to, fields: ["date", "provider", "final_usd", "meta.file", "meta.nested"] };
+    const rows = buildExportRows(events, options);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toEqual({
+      date: "2026-03-01",
+      provider: "anthropic",
+      final_usd: 2,
+      "meta.file": "/logs/a.jsonl",
+      "meta.nested": '{"a":1}',
+    });
+    expect(unknownExportFields({ ...options, fields: ["cost", "meta.anything"] })).toEqual(["cost"]);
+  });
+
+  it("groups by week and breakdown key", () => {
+    const options = { timezone, from, to, group: "week" as const, by: "project" as const };
+    const rows = buildExportRows(events, options);
+    expect(rows.map((row) => [row.period, row.project, row.count, row.final_usd])).toEqual([
+      ["2026-02-23", "web", 1, 2],
+      ["2026-03-02", "web", 1, 1],
+      ["2026-03-09", "api, v2", 1, 4],
+    ]);
+
+    const csv = formatExport(rows, "csv", exportColumns(options)).split("\n");
+    expect(csv[0]).toBe(
+      "period,project,count,tokens_in,tokens_out,cache_write,cache_read,reported_usd,estimated_usd,final_usd,unknown_cost,subscription_count,subscription_saved_usd,guessed_count"
+    );
+    expect(csv[3]).toMatch(/^2026-03-09,"api, v2",1,100,/);
+  });
+});
@@ -0,0 +1,93 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { DailyPoint } from "../src/core/aggregate.js";
+import { fitForecastModel, forecastSpend } from "../src/core/forecast.js";
+
+const tz = "UTC";
+
+function buildSeries(
+  start: string,
+  days: number,
+  value: (date: DateTime, index: number) => number
+): DailyPoint[] {
+  const first = DateTime.fromISO(start, { zone: tz });
+  return Array.from({ length: days }, (_, i) => {
+    const date = first.plus({ days: i });
+    return { date: date.toISODate() ?? "", value: value(date, i) };
+  });
+}
+
+describe("fitForecastModel", () => {
+  it("recovers a linear trend", () => {
+    const history = buildSeries("2026-01-01", 10, (_, i) => 10 + i);
+
+    const model = fitForecastModel(history, tz);
+
+    expect(model.trend_usd_per_day).toBeCloseTo(1);
+    expect(model.trailing_7_usd).toBeCloseTo(16);
+  });
+
+  it("learns weekday seasonality", () => {
+    // Weekends cost nothing, weekdays $10.
+    const history = buildSeries("2026-01-05", 28, (date) =>
+      date.weekday >= 6 ? 0 : 10
+    );
+
+    const model = fitForecastModel(history, tz);
+
+    expect(model.weekday_factors[0]).toBeCloseTo(1.4);
+    expect(model.weekday_factors[6]).toBeCloseTo(0);
+    expect(model.trend_usd_per_day).toBeCloseTo(0);
+  });
+
+  it("skips seasonality with too little history", () => {
+    const history = buildSeries("2026-01-01", 5, () => 10);
+
+    const model = fitForecastModel(history, tz);
+
+    expect(model.weekday_factors).toEqual([1, 1, 1, 1, 1, 1, 1]);
+  });
+});
+
+describe("forecastSpend", () => {
+  it("projects a flat rate to month end", () => {
+    // Noon on Feb 10: 9 completed days at $10 plus $5 so far today.
+    const now = DateTime.fromISO("2026-02-10T12:00:00", { zone: tz });
+    const series = buildSeries("2026-01-01", 41, (date) =>
+      date.toISODate() === "2026-02-10" ? 5 : 10
+    );
+
+    const forecast = forecastSpend(series, tz, now);
+
+    expect(forecast.month.actual_usd).toBeCloseTo(95);
+    // Half of today plus 18 remaining days at $10.
+    expect(forecast.month.remaining_days).toBeCloseTo(18.5);
+    expect(forecast.month.projected_usd).toBeCloseTo(280);
+    expect(forecast.month.low_usd).toBeCloseTo(280);
+    expect(forecast.month.high_usd).toBeCloseTo(280);
+  });
+
+  it("widens the band for noisy history", () => {
+    const now = DateTime.fromISO("2026-02-10T00:00:00", { zone: tz });
+    const series = buildSeries("2026-01-01", 41, (_, i) => (i % 2 === 0 ? 0 : 20));
+
+    const forecast = forecastSpend(series, tz, now);
+
+    expect(forecast.month.high_usd).toBeGreaterThan(forecast.month.projected_usd);
+    expect(forecast.month.low_usd).toBeLessThan(forecast.month.projected_usd);
+    expect(forecast.month.low_usd).toBeGreaterThanOrEqual(forecast.month.actual_usd);
+  });
+
+  it("returns actual spend when there is no history", () => {
+    const now = DateTime.fromISO("2026-02-10T12:00:00", { zone: tz });
+    const series = buildSeries("2026-02-01", 10, (date) =>
+      date.toISODate() === "2026-02-10" ? 3 : 0
+    );
+
+    const forecast = forecastSpend(series, tz, now);
+
+    expect(forecast.model.history_days).toBe(0);
+    expect(forecast.month.projected_usd).toBeCloseTo(3);
+    expect(forecast.year.projected_usd).toBeCloseTo(3);
+  });
+});
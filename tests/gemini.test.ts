@@ -0,0 +1,139 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { collectGemini, parseJsonObjects } from "../src/collectors/gemini.js";
+import { ThinktaxConfig } from "../src/core/config.js";
+import type { FileCursors } from "../src/core/cursors.js";
+
+describe("parseJsonObjects", () => {
+  it("reads pretty-printed objects written back to back", () => {
+    const raw = `{\n  "a": 1,\n  "b": "}"\n}\n{"a": 2}\n{ broken\n{"a": 3}`;
+
+    expect(parseJsonObjects(raw).map((item) => (item as { a: number }).a)).toEqual([1, 2]);
+  });
+});
+
+describe("collectGemini", () => {
+  let tmpDir: string;
+  let config: ThinktaxConfig;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thinktax-gemini-"));
+    config = { gemini: { home: path.join(tmpDir, ".gemini") } };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeChat(hash: string, chat: unknown): void {
+    const chatsDir = path.join(tmpDir, ".gemini", "tmp", hash, "chats");
+    fs.mkdirSync(chatsDir, { recursive: true });
+    fs.writeFileSync(path.join(chatsDir, "session-1.json"), JSON.stringify(chat));
+  }
+
+  function apiResponse(sessionId: string, promptId: string): string {
+    return JSON.stringify(
+      {
+        attributes: {
+          "event.name": "gemini_cli.api_response",
+          "event.timestamp": "2026-02-02T12:00:00.000Z",
+          "session.id": sessionId,
+          prompt_id: promptId,
+          model: "gemini-2.5-flash",
+          input_token_count: 1000,
+          output_token_count: 100,
+          cached_content_token_count: 0,
+          thoughts_token_count: 0,
+          tool_token_count: 0,
+        },
+      },
+      null,
+      2
+    );
+  }
+
+  it("normalizes chat token counts and attributes the git root", async () => {
+    const repo = path.join(tmpDir, "work", "app");
+    fs.mkdirSync(path.join(repo, ".git"), { recursive: true });
+    fs.mkdirSync(path.join(tmpDir, ".gemini", "tmp", "abc123"), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, ".gemini", "tmp", "abc123", ".project_root"), repo);
+    writeChat("abc123", {
+      sessionId: "s1",
+      projectHash: "abc123",
+      messages: [
+        { id: "u1", type: "user", timestamp: "2026-02-02T10:00:00Z", content: "hi" },
+        {
+          id: "g1",
+          type: "gemini",
+          timestamp: "2026-02-02T10:00:05Z",
+          model: "gemini-2.5-pro",
+          tokens: { input: 12000, output: 300, cached: 8000, thoughts: 200, tool: 50, total: 12550 },
+        },
+      ],
+    });
+
+    const events = await collectGemini(config);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      source: "gemini_cli",
+      provider: "google",
+      model: "gemini-2.5-pro",
+      tokens: { in: 4050, out: 500, cache_write: 0, cache_read: 8000 },
+      project: { name: "app", root: repo },
+    });
+    expect(events[0].meta.prompt_tokens).toBe(12050);
+  });
+
+  it("reads telemetry only for sessions without a chat recording", async () => {
+    writeChat("abc123", {
+      sessionId: "s1",
+      messages: [
+        {
+          id: "g1",
+          type: "gemini",
+          timestamp: "2026-02-02T10:00:05Z",
+          model: "gemini-2.5-flash",
+          tokens: { input: 1000, output: 100, cached: 0, thoughts: 0, tool: 0 },
+        },
+      ],
+    });
+    fs.writeFileSync(
+      path.join(tmpDir, ".gemini", "telemetry.log"),
+      [apiResponse("s1", "p1"), apiResponse("s2", "p2")].join("\n")
+    );
+
+    const events = await collectGemini(config);
+
+    expect(events.map((event) => event.meta.session)).toEqual(["s1", "s2"]);
+    expect(events[1].project).toEqual({ id: null, name: null, root: null });
+  });
+
+  it("skips chat files and telemetry that haven't changed since the last run", async () => {
+    writeChat("abc123", {
+      sessionId: "s1",
+      messages: [
+        {
+          id: "g1",
+          type: "gemini",
+          timestamp: "2026-02-02T10:00:05Z",
+          model: "gemini-2.5-flash",
+          tokens: { input: 1000, output: 100, cached: 0, thoughts: 0, tool: 0 },
+        },
+      ],
+    });
+    const telemetryFile = path.join(tmpDir, ".gemini", "telemetry.log");
+    fs.writeFileSync(telemetryFile, apiResponse("s1", "p1"));
+    const cursors: FileCursors = {};
+
+    expect(await collectGemini(config, cursors)).toHaveLength(1);
+    expect(await collectGemini(config, cursors)).toEqual([]);
+
+    // The unchanged chat still keeps its session's telemetry from being counted.
+    fs.appendFileSync(telemetryFile, `\n${apiResponse("s1", "p2")}\n${apiResponse("s2", "p3")}`);
+    const events = await collectGemini(config, cursors);
+    expect(events.map((event) => event.meta.session)).toEqual(["s2"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import { buildHeatmap, parseWorkHours } from "../src/core/heatmap.js";
+
+function buildEvent(ts: string, usd: number): UsageEvent {
+  return {
+    id: ts,
+    ts,
+    source: "claude_code",
+    provider: "anthropic",
+    model: "model-test",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 10 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: emptyProject(),
+    meta: {},
+  };
+}
+
+describe("heatmap", () => {
+  const timezone = "America/New_York";
+  const from = DateTime.fromISO("2026-03-02", { zone: timezone });
+  const to = DateTime.fromISO("2026-03-08", { zone: timezone }).endOf("day");
+  const events = [
+    // Monday 10:00 and 03:00 local, and Sunday 23:00 local just after the DST change
+    buildEvent("2026-03-02T15:00:00Z", 2),
+    buildEvent("2026-03-02T08:00:00Z", 6),
+    buildEvent("2026-03-09T03:00:00Z", 2),
+    // Outside the window
+    buildEvent("2026-03-10T15:00:00Z", 50),
+  ];
+
+  it("buckets by local weekday and hour from the week start", () => {
+    const heatmap = buildHeatmap(events, timezone, from, to, { weekStart: 7 });
+    expect(heatmap.weekdays).toEqual([7, 1, 2, 3, 4, 5, 6]);
+    expect(heatmap.cells[1][10]).toBe(2);
+    expect(heatmap.cells[1][3]).toBe(6);
+    expect(heatmap.cells[0][23]).toBe(2);
+    expect(heatmap.total).toBe(10);
+    expect(heatmap.max).toBe(6);
+    expect(heatmap.workShare).toBeCloseTo(0.2);
+  });
+
+  it("sums tokens and parses working hours", () => {
+    const heatmap = buildHeatmap(events, timezone, from, to, { metric: "tokens", workHours: [0, 24] });
+    expect(heatmap.total).toBe(480);
+    expect(heatmap.workShare).toBeCloseTo(2 / 3);
+    expect(parseWorkHours("8-20")).toEqual([8, 20]);
+    expect(() => parseWorkHours("18-9")).toThrow(/Invalid working hours/);
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, expect, it } from "vitest";
-import { findPricing, estimateCostUsd, PricingTable, PricingModel } from "../src/core/pricing.js";
+import {
+  applyPricingOverrides,
+  findPricing,
+  estimateCostUsd,
+  normalizeModelName,
+  resolvePricing,
+  PricingTable,
+  PricingModel,
+} from "../src/core/pricing.js";
 
 const mockPricing: PricingTable = {
   updated: "2026-02-02",
@@ -67,6 +75,53 @@ describe("findPricing", () => {
   });
 });
 
+describe("findPricing with price periods", () => {
+  const table: PricingTable = {
+    updated: "2026-02-02",
+    currency: "USD",
+    per: "1M",
+    models: [
+      {
+        provider: "anthropic",
+        model: "claude-opus",
+        input_per_million: 5.0,
+        output_per_million: 25.0,
+        periods: [
+          { effective_to: "2025-11-24", input_per_million: 15.0, output_per_million: 75.0 },
+          { effective_from: "2026-06-01", input_per_million: 4.0 },
+        ],
+      },
+    ],
+  };
+
+  it("uses the period in effect at the event time", () => {
+    const result = findPricing(table, "anthropic", "claude-opus", "2025-10-01T12:00:00Z");
+
+    expect(result?.input_per_million).toBe(15.0);
+    expect(result?.output_per_million).toBe(75.0);
+    expect(result?.periods).toBeUndefined();
+  });
+
+  it("treats effective_to as exclusive", () => {
+    const result = findPricing(table, "anthropic", "claude-opus", "2025-11-24T00:00:00Z");
+
+    expect(result?.input_per_million).toBe(5.0);
+  });
+
+  it("fills rates missing from a period with the current price", () => {
+    const result = findPricing(table, "anthropic", "claude-opus-4", "2026-07-01T00:00:00Z");
+
+    expect(result?.input_per_million).toBe(4.0);
+    expect(result?.output_per_million).toBe(25.0);
+  });
+
+  it("uses the current price without a timestamp", () => {
+    const result = findPricing(table, "anthropic", "claude-opus");
+
+    expect(result?.input_per_million).toBe(5.0);
+  });
+});
+
 describe("estimateCostUsd", () => {
   const pricing: PricingModel = {
     provider: "anthropic",
@@ -127,3 +182,174 @@ describe("estimateCostUsd", () => {
     expect(cost).toBeCloseTo(0.00525);
   });
 });
+
+describe("estimateCostUsd with tiers", () => {
+  const pricing: PricingModel = {
+    provider: "anthropic",
+    model: "claude-sonnet-4",
+    input_per_million: 3.0,
+    output_per_million: 15.0,
+    cache_write_per_million: 3.75,
+    cache_write_1h_per_million: 6.0,
+    cache_read_per_million: 0.3,
+    tiers: [
+      {
+        name: "long-context",
+        prompt_tokens_above: 200_000,
+        input_per_million: 6.0,
+        output_per_million: 22.5,
+      },
+      { name: "batch", service_tier: "batch", multiplier: 0.5 },
+    ],
+  };
+
+  it("uses base rates below the prompt threshold", () => {
+    const tokens = { in: 100_000, out: 100_000, cache_write: 0, cache_read: 0 };
+
+    // 0.1M * $3 + 0.1M * $15
+    expect(estimateCostUsd(pricing, tokens)).toBeCloseTo(1.8);
+  });
+
+  it("switches to long-context rates when cached tokens push the prompt over", () => {
+    const tokens = { in: 50_000, out: 100_000, cache_write: 0, cache_read: 200_000 };
+
+    // 0.05M * $6 + 0.1M * $22.50 + 0.2M * $0.30
+    expect(estimateCostUsd(pricing, tokens)).toBeCloseTo(2.61);
+  });
+
+  it("prefers the recorded prompt size", () => {
+    const tokens = { in: 1_000_000, out: 0, cache_write: 0, cache_read: 0 };
+
+    expect(estimateCostUsd(pricing, tokens, { prompt_tokens: 150_000 })).toBeCloseTo(3.0);
+  });
+
+  it("stacks a service tier multiplier on top of other tiers", () => {
+    const tokens = { in: 1_000_000, out: 0, cache_write: 0, cache_read: 0 };
+
+    expect(estimateCostUsd(pricing, tokens, { service_tier: "batch" })).toBeCloseTo(3.0);
+  });
+
+  it("prices 1-hour cache writes separately", () => {
+    const tokens = { in: 0, out: 0, cache_write: 1_000_000, cache_read: 0 };
+
+    // 0.4M * $6 + 0.6M * $3.75
+    expect(estimateCostUsd(pricing, tokens, { cache_write_1h_tokens: 400_000 })).toBeCloseTo(4.65);
+  });
+});
+
+describe("applyPricingOverrides", () => {
+  it("overrides only the fields an entry sets", () => {
+    const table = applyPricingOverrides(
+      mockPricing,
+      { models: [{ provider: "openai", model: "gpt-4o", input_per_million: 2.0 }] },
+      "user"
+    );
+
+    const result = findPricing(table, "openai", "gpt-4o");
+    expect(result?.input_per_million).toBe(2.0);
+    expect(result?.output_per_million).toBe(10.0);
+    expect(result?.origin).toBe("user");
+  });
+
+  it("adds new models ahead of broader matches", () => {
+    const table = applyPricingOverrides(
+      mockPricing,
+      {
+        models: [
+          {
+            provider: "anthropic",
+            model: "claude-3-5-sonnet-internal",
+            input_per_million: 1.0,
+            output_per_million: 5.0,
+          },
+        ],
+      },
+      "config"
+    );
+
+    const result = findPricing(table, "anthropic", "claude-3-5-sonnet-internal-v2");
+    expect(result?.input_per_million).toBe(1.0);
+  });
+
+  it("resolves aliases across providers", () => {
+    const table = applyPricingOverrides(
+      mockPricing,
+      { aliases: { "claude-4.5-sonnet-thinking": "anthropic/claude-3-5-sonnet" } },
+      "config"
+    );
+
+    const resolved = resolvePricing(table, "cursor", "claude-4.5-sonnet-thinking");
+    expect(resolved?.entry.model).toBe("claude-3-5-sonnet");
+    expect(resolved?.alias).toBe("anthropic/claude-3-5-sonnet");
+  });
+
+  it("applies provider discounts to estimates", () => {
+    const table = applyPricingOverrides(mockPricing, { discounts: { openai: 20 } }, "config");
+    const tokens = { in: 1_000_000, out: 0, cache_write: 0, cache_read: 0 };
+
+    expect(estimateCostUsd(findPricing(table, "openai", "gpt-4o")!, tokens)).toBeCloseTo(2.0);
+    expect(estimateCostUsd(findPricing(table, "anthropic", "claude-3-5-sonnet")!, tokens)).toBeCloseTo(3.0);
+  });
+});
+
+describe("normalizeModelName", () => {
+  it("strips vendor prefixes and date or version suffixes", () => {
+    expect(normalizeModelName("anthropic/claude-sonnet-4-20250514")).toBe("claude-sonnet-4");
+    expect(normalizeModelName("openai/gpt-4o-2024-08-06")).toBe("gpt-4o");
+    expect(normalizeModelName("us.anthropic.claude-3-5-sonnet-20241022-v2:0")).toBe("claude-3-5-sonnet");
+    expect(normalizeModelName("claude-3-5-haiku@20241022")).toBe("claude-3-5-haiku");
+    expect(normalizeModelName("GPT-5.2-Codex")).toBe("gpt-5.2-codex");
+  });
+});
+
+describe("resolvePricing match kinds", () => {
+  const table: PricingTable = {
+    updated: null,
+    currency: "USD",
+    per: "1M",
+    models: [
+      { provider: "openai", model: "gpt-5", input_per_million: 1.25, output_per_million: 10 },
+      { provider: "openai", model: "gpt-5.2", input_per_million: 1.75, output_per_million: 14 },
+      { provider: "openai", model: "gpt-5.2-codex", input_per_million: 1.75, output_per_million: 14 },
+      { provider: "openai", model: "gpt-4o", input_per_million: 2.5, output_per_million: 10 },
+      { provider: "openai", model: "gpt-4o-2024-05-13", input_per_million: 5, output_per_million: 15 },
+    ],
+  };
+
+  it("keeps dated entries for their exact id", () => {
+    expect(resolvePricing(table, "openai", "gpt-4o-2024-05-13")).toMatchObject({
+      match: "exact",
+      entry: { model: "gpt-4o-2024-05-13" },
+    });
+  });
+
+  it("maps other dated ids to the undated entry", () => {
+    expect(resolvePricing(table, "openai", "openai/gpt-4o-2024-08-06")).toMatchObject({
+      match: "normalized",
+      entry: { model: "gpt-4o" },
+    });
+  });
+
+  it("prefers the longest prefix regardless of table order", () => {
+    expect(resolvePricing(table, "openai", "gpt-5.2-codex-mini")).toMatchObject({
+      match: "prefix",
+      entry: { model: "gpt-5.2-codex" },
+    });
+    expect(resolvePricing(table, "openai", "gpt-5-turbo")?.entry.model).toBe("gpt-5");
+  });
+
+  it("falls back to the longest substring", () => {
+    expect(resolvePricing(table, "openai", "ft:gpt-5.2:acme")).toMatchObject({
+      match: "substring",
+      entry: { model: "gpt-5.2" },
+    });
+  });
+
+  it("searches every provider when none is given", () => {
+    expect(resolvePricing(table, null, "gpt-5")).toMatchObject({
+      match: "exact",
+      entry: { provider: "openai", model: "gpt-5" },
+    });
+    expect(resolvePricing(table, "anthropic", "gpt-5")).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { resolveWeekStart } from "../src/core/config.js";
+import { parseRange, parseWindow, previousRange } from "../src/core/ranges.js";
+
+const timezone = "America/Los_Angeles";
+// A Wednesday evening.
+const now = DateTime.fromISO("2026-03-18T21:30:00", { zone: timezone });
+const context = { timezone, now };
+
+function days(range: ReturnType<typeof parseRange>) {
+  return [range?.label, range?.from.toISO(), range?.to.toISODate()];
+}
+
+describe("parseRange", () => {
+  it("returns null without range flags", () => {
+    expect(parseRange({}, context)).toBeNull();
+  });
+
+  it("resolves calendar windows in the reporting timezone", () => {
+    expect(days(parseRange({ month: "2026-02" }, context))).toEqual([
+      "2026-02",
+      "2026-02-01T00:00:00.000-08:00",
+      "2026-02-28",
+    ]);
+    const current = parseRange({ month: "2026-03" }, context);
+    expect(current?.to.toISO()).toBe(now.toISO());
+    expect(parseRange({ lastMonth: true }, context)?.label).toBe("2026-02");
+    expect(days(parseRange({ from: "2026-01-05", to: "2026-01-11" }, context))).toEqual([
+      "2026-01-05..2026-01-11",
+      "2026-01-05T00:00:00.000-08:00",
+      "2026-01-11",
+    ]);
+  });
+
+  it("counts trailing windows back from today", () => {
+    expect(days(parseRange({ last: "7d" }, context))).toEqual([
+      "Last 7d",
+      "2026-03-12T00:00:00.000-07:00",
+      "2026-03-18",
+    ]);
+    expect(parseRange({ last: "2w" }, context)?.from.toISODate()).toBe("2026-03-05");
+  });
+
+  it("honours the configured week start", () => {
+    expect(parseRange({ week: true }, context)?.from.toISODate()).toBe("2026-03-16");
+    const sunday = { ...context, weekStart: resolveWeekStart({ ui: { weekStart: "Sunday" } }) };
+    expect(parseRange({ week: true }, sunday)?.from.toISODate()).toBe("2026-03-15");
+    expect(days(parseRange({ lastWeek: true }, sunday))).toEqual([
+      "Week of 2026-03-08",
+      "2026-03-08T00:00:00.000-08:00",
+      "2026-03-14",
+    ]);
+  });
+
+  it("rejects malformed and conflicting flags", () => {
+    expect(() => parseRange({ month: "March" }, context)).toThrow("Invalid --month");
+    expect(() => parseRange({ last: "soon" }, context)).toThrow("Invalid --last");
+    expect(() => parseRange({ to: "2026-03-01" }, context)).toThrow("--to needs --from");
+    expect(() => parseRange({ week: true, lastMonth: true }, context)).toThrow(
+      "Choose one of --week, --last-month"
+    );
+  });
+});
+
+describe("parseWindow and previousRange", () => {
+  it("compares a running month with the same days of the month before", () => {
+    const current = parseWindow("this-month", context);
+    const previous = previousRange(current);
+    expect(days(previous)).toEqual(["2026-02", "2026-02-01T00:00:00.000-08:00", "2026-02-18"]);
+    expect(previous.to.toFormat("HH:mm")).toBe("21:30");
+  });
+
+  it("compares finished windows with the whole previous one", () => {
+    expect(days(previousRange(parseWindow("2026-03", { ...context, now: now.plus({ months: 1 }) })))).toEqual([
+      "2026-02",
+      "2026-02-01T00:00:00.000-08:00",
+      "2026-02-28",
+    ]);
+    expect(days(previousRange(parseWindow("2026-01-05..2026-01-11", context)))).toEqual([
+      "2025-12-29..2026-01-04",
+      "2025-12-29T00:00:00.000-08:00",
+      "2026-01-04",
+    ]);
+  });
+
+  it("finds the same week a year earlier", () => {
+    const lastWeek = parseWindow("last-week", context);
+    expect(lastWeek.label).toBe("Week of 2026-03-09");
+    const yearAgo = previousRange(lastWeek, true);
+    expect(yearAgo.label).toBe("Week of 2025-03-10");
+    expect(yearAgo.to.toISODate()).toBe("2025-03-16");
+  });
+
+  it("rejects unknown windows", () => {
+    expect(() => parseWindow("fortnight", context)).toThrow("Invalid window");
+  });
+});
@@ -0,0 +1,62 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  builtinCollectors,
+  loadCollectors,
+  selectCollectors,
+} from "../src/collectors/registry.js";
+
+describe("selectCollectors", () => {
+  it("applies --only and --skip lists", () => {
+    const only = selectCollectors(builtinCollectors, { only: "claude, review-crew" });
+    expect(only.map((collector) => collector.name)).toEqual(["claude", "reviewCrew"]);
+
+    const skipped = selectCollectors(builtinCollectors, { skip: "cursor" });
+    expect(skipped).toHaveLength(builtinCollectors.length - 1);
+    expect(skipped.some((collector) => collector.name === "cursor")).toBe(false);
+  });
+
+  it("rejects unknown names", () => {
+    expect(() => selectCollectors(builtinCollectors, { only: "claud" })).toThrow(
+      /Unknown collector: claud/
+    );
+  });
+});
+
+describe("loadCollectors", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "thinktax-registry-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("registers plugins relative to the config file", async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, "plugin.mjs"),
+      `export default {
+        name: "acme",
+        label: "Acme",
+        source: "custom",
+        isConfigured: () => true,
+        collect: async () => [],
+        health: () => ({ status: "ok", detail: "acme" }),
+      };`
+    );
+    fs.writeFileSync(path.join(tmpDir, "empty.mjs"), "export const nothing = 1;");
+
+    const collectors = await loadCollectors(
+      { collectors: { plugins: ["./plugin.mjs", "./empty.mjs", "./missing.mjs"] } },
+      path.join(tmpDir, "config.toml")
+    );
+
+    expect(collectors).toHaveLength(builtinCollectors.length + 1);
+    expect(collectors.at(-1)?.name).toBe("acme");
+    expect(selectCollectors(collectors, { only: "acme" })).toHaveLength(1);
+  });
+});
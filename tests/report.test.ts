@@ -0,0 +1,54 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { buildReportData, loadVegaRuntime, renderHtmlReport } from "../src/cli/report.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+
+function buildEvent(
+  id: string,
+  ts: string,
+  provider: UsageEvent["provider"],
+  usd: number,
+  cacheRead = 0
+): UsageEvent {
+  return {
+    id,
+    ts,
+    source: provider === "anthropic" ? "claude_code" : "codex_cli",
+    provider,
+    model: provider === "anthropic" ? "claude-sonnet-4" : "gpt-5",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: cacheRead },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: "</script><b>proj</b>" },
+    meta: {},
+  };
+}
+
+describe("HTML report", () => {
+  const from = DateTime.fromISO("2026-02-01T00:00:00Z", { zone: "UTC" });
+  const to = DateTime.fromISO("2026-02-03T23:59:59Z", { zone: "UTC" });
+  const events = [
+    buildEvent("a", "2026-02-01T10:00:00Z", "anthropic", 2, 300),
+    buildEvent("b", "2026-02-03T10:00:00Z", "anthropic", 1, 100),
+    buildEvent("c", "2026-02-03T11:00:00Z", "openai", 4),
+  ];
+
+  it("builds per-provider daily series and cache hit rates", () => {
+    const data = buildReportData(events, "UTC", from, to);
+    expect(data.summary.totals.final_usd).toBe(7);
+    expect(data.daily.filter((point) => point.provider === "anthropic").map((point) => point.cost)).toEqual([
+      2, 0, 1,
+    ]);
+    const anthropic = data.cache.find((entry) => entry.provider === "anthropic");
+    expect(anthropic?.hitRate).toBeCloseTo(400 / 600);
+    expect(data.cache.find((entry) => entry.provider === "openai")?.hitRate).toBe(0);
+  });
+
+  it("renders a single file with compiled specs and the inlined runtime", () => {
+    const html = renderHtmlReport(buildReportData(events, "UTC", from, to), "/* vega runtime */");
+    expect(html).toContain("/* vega runtime */");
+    expect(html.match(/class="chart"/g)).toHaveLength(5);
+    expect(html).not.toContain("</script><b>proj");
+    expect(html).not.toMatch(/<script src=/);
+    expect(loadVegaRuntime()).toContain("vega");
+  });
+});
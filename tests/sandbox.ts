@@ -0,0 +1,27 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach } from "vitest";
+
+/**
+ * Point thinktax's data directory at a fresh temp directory for each test,
+ * on every platform, and remove it afterwards. Returns the current directory.
+ */
+export function useDataSandbox(name: string): () => string {
+  let dir = "";
+  let previous: string | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), `thinktax-${name}-`));
+    previous = process.env.THINKTAX_DATA_DIR;
+    process.env.THINKTAX_DATA_DIR = dir;
+  });
+
+  afterEach(() => {
+    if (previous === undefined) delete process.env.THINKTAX_DATA_DIR;
+    else process.env.THINKTAX_DATA_DIR = previous;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return () => dir;
+}
@@ -0,0 +1,118 @@
+import http from "node:http";
+import { DateTime } from "luxon";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { DailyPoint, Summary, Totals } from "../src/core/aggregate.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import { createApiServer, handleApiRequest } from "../src/core/server.js";
+import { writeEvents } from "../src/core/storage.js";
+import { useDataSandbox } from "./sandbox.js";
+
+function buildEvent(id: string, ts: string, provider: UsageEvent["provider"], usd: number): UsageEvent {
+  return {
+    id,
+    ts,
+    source: provider === "anthropic" ? "claude_code" : "codex_cli",
+    provider,
+    model: "model-test",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: emptyProject(),
+    meta: {},
+  };
+}
+
+describe("handleApiRequest", () => {
+  useDataSandbox("server");
+  const options = {
+    timezone: "UTC",
+    now: () => DateTime.fromISO("2026-02-03T12:00:00Z"),
+  };
+
+  beforeEach(async () => {
+    await writeEvents([
+      buildEvent("a", "2026-02-02T10:00:00Z", "anthropic", 2),
+      buildEvent("b", "2026-02-03T10:00:00Z", "anthropic", 1),
+      buildEvent("c", "2026-02-03T11:00:00Z", "openai", 4),
+    ]);
+  });
+
+  it("serves windowed summaries and ranked breakdowns", async () => {
+    const today = await handleApiRequest("/summary?window=today", options);
+    expect(today.status).toBe(200);
+    expect((today.body as Summary).totals.final_usd).toBe(5);
+
+    const breakdown = await handleApiRequest("/breakdown/provider?from=2026-02-02", options);
+    const { buckets } = breakdown.body as { buckets: Array<{ key: string } & Totals> };
+    expect(buckets.map((bucket) => [bucket.key, bucket.final_usd])).toEqual([
+      ["openai", 4],
+      ["anthropic", 3],
+    ]);
+  });
+
+  it("filters events and builds per-bucket time series", async () => {
+    const events = await handleApiRequest(
+      "/events?from=2026-02-01&to=2026-02-03&provider=anthropic",
+      options
+    );
+    expect((events.body as { events: UsageEvent[] }).events.map((event) => event.id)).toEqual(["a", "b"]);
+
+    const series = await handleApiRequest("/timeseries?from=2026-02-02&by=provider", options);
+    expect((series.body as { series: Record<string, DailyPoint[]> }).series).toMatchObject({
+      total: [
+        { date: "2026-02-02", value: 2 },
+        { date: "2026-02-03", value: 5 },
+      ],
+      openai: [
+        { date: "2026-02-02", value: 0 },
+        { date: "2026-02-03", value: 4 },
+      ],
+    });
+  });
+
+  it("rejects bad parameters and unknown paths", async () => {
+    expect(await handleApiRequest("/summary?window=week", options)).toMatchObject({ status: 400 });
+    expect(await handleApiRequest("/events?from=yesterday", options)).toMatchObject({ status: 400 });
+    expect(await handleApiRequest("/nope", options)).toMatchObject({ status: 404 });
+  });
+
+  it("only sends CORS headers to the configured origin", async () => {
+    const fetchOrigin = async (corsOrigin: string | undefined, origin: string) => {
+      const server = createApiServer({ ...options, corsOrigin });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as { port: number };
+      try {
+        const response = await fetch(`http://127.0.0.1:${port}/healthz`, { headers: { Origin: origin } });
+        return response.headers.get("access-control-allow-origin");
+      } finally {
+        server.close();
+      }
+    };
+
+    expect(await fetchOrigin(undefined, "https://evil.example")).toBeNull();
+    expect(await fetchOrigin("http://localhost:5173", "https://evil.example")).toBeNull();
+    expect(await fetchOrigin("http://localhost:5173", "http://localhost:5173")).toBe("http://localhost:5173");
+  });
+
+  it("rejects requests addressed to another host name", async () => {
+    const server = createApiServer({ ...options, host: "127.0.0.1" });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as { port: number };
+    const statusFor = async (host: string) =>
+      new Promise<number | undefined>((resolve, reject) => {
+        http
+          .get({ host: "127.0.0.1", port, path: "/healthz", headers: { Host: host } }, (res) => {
+            res.resume();
+            resolve(res.statusCode);
+          })
+          .on("error", reject);
+      });
+    try {
+      expect(await statusFor(`localhost:${port}`)).toBe(200);
+      expect(await statusFor(`127.0.0.1:${port}`)).toBe(200);
+      expect(await statusFor(`rebound.example:${port}`)).toBe(403);
+      expect(await statusFor(`localhost:${port + 1}`)).toBe(403);
+    } finally {
+      server.close();
+    }
+  });
+});
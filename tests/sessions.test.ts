@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import { eventSession, findSessions, sessionEvents, summarizeSessions } from "../src/core/sessions.js";
+
+function buildEvent(
+  id: string,
+  ts: string,
+  usd: number,
+  fields: Partial<UsageEvent> = {}
+): UsageEvent {
+  return {
+    id,
+    ts,
+    source: "codex_cli",
+    provider: "openai",
+    model: "gpt-5",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: "web" },
+    meta: {},
+    ...fields,
+  };
+}
+
+describe("sessions", () => {
+  const events = [
+    buildEvent("a", "2026-03-02T10:00:00Z", 1, { session: "run-1", meta: { file: "/codex/run-1.jsonl" } }),
+    buildEvent("b", "2026-03-02T10:30:00Z", 2, { session: "run-1", model: "gpt-5-mini" }),
+    buildEvent("c", "2026-03-02T10:45:00Z", 3, { session: "run-1", project: { ...emptyProject(), name: "api" } }),
+    // Stored before collectors set `session`.
+    buildEvent("d", "2026-03-03T09:00:00Z", 90, {
+      source: "claude_code",
+      provider: "anthropic",
+      model: "claude-opus-4",
+      meta: { file: "/claude/projects/-repo/5f1c2d.jsonl" },
+    }),
+    buildEvent("e", "2026-03-03T09:05:00Z", 4, { source: "openclaw", meta: { sessionId: "run-2" } }),
+    buildEvent("f", "2026-03-04T09:00:00Z", 5),
+  ];
+
+  it("falls back to ids kept in meta", () => {
+    expect(events.map(eventSession)).toEqual(["run-1", "run-1", "run-1", "5f1c2d", "run-2", null]);
+  });
+
+  it("rolls events up per session, most expensive first", () => {
+    const sessions = summarizeSessions(events);
+    expect(sessions.map((session) => [session.id, session.totals.final_usd, session.turns])).toEqual([
+      ["5f1c2d", 90, 1],
+      ["run-1", 6, 3],
+      ["run-2", 4, 1],
+    ]);
+
+    const run = sessions[1];
+    expect(run).toMatchObject({ project: "web", duration_ms: 45 * 60_000, file: "/codex/run-1.jsonl" });
+    expect(run.models).toEqual([
+      { model: "gpt-5", turns: 2, final_usd: 4 },
+      { model: "gpt-5-mini", turns: 1, final_usd: 2 },
+    ]);
+    expect(summarizeSessions(events, "duration")[0].id).toBe("run-1");
+  });
+
+  it("finds sessions by id prefix", () => {
+    const sessions = summarizeSessions(events);
+    expect(findSessions(sessions, "5f1").map((session) => session.id)).toEqual(["5f1c2d"]);
+    expect(findSessions(sessions, "run")).toHaveLength(2);
+    expect(sessionEvents(events, findSessions(sessions, "run-1")[0]).map((event) => event.id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+});
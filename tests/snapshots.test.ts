@@ -0,0 +1,119 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import { evaluateBudgets } from "../src/core/budgets.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import { loadForecast } from "../src/core/forecast.js";
+import {
+  loadRangeSummary,
+  loadSummaries,
+  readSnapshot,
+  refreshSnapshots,
+} from "../src/core/snapshots.js";
+import { writeEvents } from "../src/core/storage.js";
+import { useDataSandbox } from "./sandbox.js";
+
+function buildEvent(ts: string, usd: number): UsageEvent {
+  return {
+    id: ts,
+    ts,
+    source: "codex_cli",
+    provider: "openai",
+    model: "gpt-test",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: emptyProject(),
+    meta: {},
+  };
+}
+
+describe("daily snapshots", () => {
+  const tz = "UTC";
+  const now = DateTime.fromISO("2026-02-10T12:00:00Z", { zone: tz });
+  useDataSandbox("snapshots");
+
+  it("writes snapshots and combines them into summaries", async () => {
+    await writeEvents([
+      buildEvent("2026-01-20T10:00:00Z", 5),
+      buildEvent("2026-02-03T10:00:00Z", 2),
+      buildEvent("2026-02-10T09:00:00Z", 1),
+    ]);
+
+    const written = await refreshSnapshots(tz);
+    expect(written).toBeGreaterThan(0);
+    expect(readSnapshot("2026-02-03", tz)?.summary.totals.final_usd).toBeCloseTo(2);
+
+    const summaries = await loadSummaries(tz, now);
+    expect(summaries.today.totals.final_usd).toBeCloseTo(1);
+    expect(summaries.mtd.totals.final_usd).toBeCloseTo(3);
+    expect(summaries.ytd.totals.final_usd).toBeCloseTo(8);
+    expect(summaries.all.totals.count).toBe(3);
+    expect(summaries.mtd.breakdowns.provider.openai.final_usd).toBeCloseTo(3);
+  });
+
+  it("only rebuilds snapshots whose event files changed", async () => {
+    await writeEvents([
+      buildEvent("2026-01-20T10:00:00Z", 5),
+      buildEvent("2026-02-03T10:00:00Z", 2),
+    ]);
+    await refreshSnapshots(tz);
+    expect(await refreshSnapshots(tz)).toBe(0);
+
+    await writeEvents([buildEvent("2026-02-03T11:00:00Z", 4)]);
+
+    // The changed file feeds the previous, same and next day.
+    expect(await refreshSnapshots(tz)).toBe(3);
+    const summaries = await loadSummaries(tz, now);
+    expect(summaries.mtd.totals.final_usd).toBeCloseTo(6);
+  });
+
+  it("ignores snapshots written for another timezone", async () => {
+    await writeEvents([buildEvent("2026-02-03T10:00:00Z", 2)]);
+    await refreshSnapshots("America/New_York");
+
+    expect(readSnapshot("2026-02-03", tz)).toBeNull();
+    const summaries = await loadSummaries(tz, now);
+    expect(summaries.mtd.totals.final_usd).toBeCloseTo(2);
+  });
+
+  it("counts only the covered part of a partial first or last day", async () => {
+    await writeEvents([
+      buildEvent("2026-01-09T20:00:00Z", 8),
+      buildEvent("2026-01-10T08:00:00Z", 1),
+      buildEvent("2026-01-10T20:00:00Z", 4),
+    ]);
+    await refreshSnapshots(tz);
+
+    const day = DateTime.fromISO("2026-01-10T00:00:00Z", { zone: tz });
+    const untilNoon = await loadRangeSummary(tz, day.minus({ days: 9 }), day.set({ hour: 12 }));
+    expect(untilNoon.totals.final_usd).toBeCloseTo(9);
+    const fromNoon = await loadRangeSummary(tz, day.set({ hour: 12 }), day.endOf("day"));
+    expect(fromNoon.totals.final_usd).toBeCloseTo(4);
+  });
+
+  it("evaluates budgets and forecasts from the daily summaries", async () => {
+    await writeEvents([
+      buildEvent("2026-01-20T10:00:00Z", 5),
+      buildEvent("2026-02-03T10:00:00Z", 2),
+      buildEvent("2026-02-10T09:00:00Z", 1),
+    ]);
+    await refreshSnapshots(tz);
+
+    const statuses = await evaluateBudgets(
+      {
+        budgets: [
+          { period: "month", limit: 10 },
+          { period: "month", limit: 10, provider: "openai" },
+          { period: "month", limit: 10, provider: "anthropic" },
+          { period: "month", limit: 10, provider: "openai", model: "gpt-test" },
+        ],
+      },
+      tz,
+      now
+    );
+    expect(statuses.map((status) => status.spent_usd)).toEqual([3, 3, 0, 3]);
+
+    const forecast = await loadForecast(tz, now);
+    expect(forecast.month.actual_usd).toBeCloseTo(3);
+    expect(forecast.year.actual_usd).toBeCloseTo(8);
+  });
+});
@@ -0,0 +1,117 @@
+import { DateTime } from "luxon";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+import { StorageBackend, openStorageBackend, storageBackendExists } from "../src/core/storage.js";
+import type { StorageBackendKind } from "../src/core/storage.js";
+import { useDataSandbox } from "./sandbox.js";
+
+async function sqliteAvailable(): Promise<boolean> {
+  try {
+    const mod = await import("better-sqlite3");
+    new mod.default(":memory:").close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function buildEvent(
+  id: string,
+  ts: string,
+  overrides: Partial<UsageEvent> = {}
+): UsageEvent {
+  return {
+    id,
+    ts,
+    source: "codex_cli",
+    provider: "openai",
+    model: "gpt-test",
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: 1, final_usd: 1, mode: "estimated" },
+    project: emptyProject(),
+    meta: {},
+    ...overrides,
+  };
+}
+
+const backends: StorageBackendKind[] = ["jsonl"];
+if (await sqliteAvailable()) backends.push("sqlite");
+
+describe("storageBackendExists", () => {
+  useDataSandbox("storage");
+
+  it("reports jsonl storage only once events are written", async () => {
+    expect(storageBackendExists("jsonl")).toBe(false);
+    expect(storageBackendExists("sqlite")).toBe(false);
+
+    const backend = await openStorageBackend("jsonl");
+    await backend.writeEvents([buildEvent("a", "2026-02-03T10:00:00Z")]);
+    backend.close();
+    expect(storageBackendExists("jsonl")).toBe(true);
+  });
+});
+
+describe.each(backends)("%s storage backend", (kind) => {
+  useDataSandbox("storage");
+  let backend: StorageBackend;
+
+  beforeEach(async () => {
+    backend = await openStorageBackend(kind);
+  });
+
+  afterEach(() => {
+    backend.close();
+  });
+
+  it("skips events that are already stored", async () => {
+    const first = buildEvent("a", "2026-02-03T10:00:00Z");
+
+    expect(await backend.writeEvents([first, buildEvent("b", "2026-02-03T11:00:00Z")])).toBe(2);
+    expect(await backend.writeEvents([first, first])).toBe(0);
+    expect(await backend.loadAll()).toHaveLength(2);
+  });
+
+  it("queries by time range and dimension", async () => {
+    await backend.writeEvents([
+      buildEvent("a", "2026-02-01T10:00:00Z"),
+      buildEvent("b", "2026-02-03T10:00:00Z", {
+        provider: "anthropic",
+        project: { id: "p", name: "thinktax", root: null },
+      }),
+      buildEvent("c", "2026-02-05T10:00:00Z", { provider: "anthropic" }),
+    ]);
+
+    const ranged = await backend.query({
+      from: DateTime.fromISO("2026-02-02T00:00:00Z"),
+      to: DateTime.fromISO("2026-02-06T00:00:00Z"),
+    });
+    expect(ranged.map((event) => event.id)).toEqual(["b", "c"]);
+
+    const byProject = await backend.query({ provider: "anthropic", project: "thinktax" });
+    expect(byProject.map((event) => event.id)).toEqual(["b"]);
+
+    const unassigned = await backend.query({ project: "unassigned", billing: "estimate" });
+    expect(unassigned.map((event) => event.id).sort()).toEqual(["a", "c"]);
+  });
+
+  it("replaces whole days on overwrite and changes their fingerprint", async () => {
+    await backend.writeEvents([
+      buildEvent("a", "2026-02-03T10:00:00Z"),
+      buildEvent("b", "2026-02-03T11:00:00Z"),
+    ]);
+    const before = backend.dayFingerprint("2026-02-03");
+
+    await backend.overwriteEvents([
+      buildEvent("a", "2026-02-03T10:00:00Z", {
+        cost: { ...emptyCost(), final_usd: 2, mode: "estimated" },
+      }),
+    ]);
+
+    const day = await backend.loadDay("2026-02-03");
+    expect(day).toHaveLength(1);
+    expect(day[0].cost.final_usd).toBe(2);
+    expect(backend.dayFingerprint("2026-02-03")).not.toBe(before);
+    expect(backend.dayFingerprint("2026-02-04")).toBeNull();
+    expect(backend.listDays()).toEqual(["2026-02-03"]);
+  });
+});
@@ -0,0 +1,87 @@
+import { DateTime } from "luxon";
+import { describe, expect, it } from "vitest";
+import {
+  buildTuiData,
+  handleTuiKey,
+  initialTuiState,
+  renderTui,
+  tuiRange,
+  tuiRowKeys,
+  tuiSeries,
+} from "../src/cli/tui.js";
+import { UsageEvent, emptyCost, emptyProject } from "../src/core/events.js";
+
+function buildEvent(id: string, ts: string, usd: number, project: string): UsageEvent {
+  return {
+    id,
+    ts,
+    source: "claude_code",
+    provider: "anthropic",
+    model: "model-test",
+    session: `session-${project}`,
+    tokens: { in: 100, out: 50, cache_write: 0, cache_read: 0 },
+    cost: { ...emptyCost(), estimated_usd: usd, final_usd: usd, mode: "estimated" },
+    project: { ...emptyProject(), name: project },
+    meta: {},
+  };
+}
+
+describe("tui", () => {
+  const timezone = "UTC";
+  const context = { timezone, now: DateTime.fromISO("2026-03-10T12:00:00Z", { zone: timezone }) };
+  const events = [
+    buildEvent("a", "2026-03-02T10:00:00Z", 2, "web"),
+    buildEvent("b", "2026-03-09T10:00:00Z", 5, "agents"),
+    buildEvent("c", "2026-02-20T10:00:00Z", 9, "web"),
+  ];
+
+  it("navigates tabs, rows, drill-down and windows", () => {
+    let state = initialTuiState();
+    const data = buildTuiData(events, timezone, tuiRange(state, context));
+    expect(data.summary.totals.final_usd).toBe(7);
+
+    state = handleTuiKey(state, { name: "3", sequence: "3" }, [], context).state;
+    const rows = tuiRowKeys(state, data);
+    expect(rows).toEqual(["agents", "web"]);
+    state = handleTuiKey(state, { name: "down" }, rows, context).state;
+    state = handleTuiKey(state, { name: "down" }, rows, context).state;
+    expect(state.selected).toBe(1);
+    state = handleTuiKey(state, { name: "return" }, rows, context).state;
+    expect(state.drill).toBe("web");
+    state = handleTuiKey(state, { name: "escape" }, rows, context).state;
+    expect(state.drill).toBeNull();
+
+    const ytd = handleTuiKey(state, { name: "y" }, rows, context);
+    expect(ytd.effect).toBe("reload");
+    expect(tuiRange(ytd.state, context).from.toISODate()).toBe("2026-01-01");
+
+    expect(handleTuiKey(state, { name: "q" }, rows, context).effect).toBe("quit");
+  });
+
+  it("reads a custom window and reports bad input", () => {
+    let state = handleTuiKey(initialTuiState(), { name: "c" }, [], context).state;
+    for (const char of "2026-02") state = handleTuiKey(state, { sequence: char }, [], context).state;
+    const result = handleTuiKey(state, { name: "return" }, [], context);
+    expect(result.effect).toBe("reload");
+    expect(tuiRange(result.state, context).label).toBe("2026-02");
+
+    state = handleTuiKey(initialTuiState(), { name: "c" }, [], context).state;
+    state = handleTuiKey(state, { sequence: "x" }, [], context).state;
+    state = handleTuiKey(state, { name: "return" }, [], context).state;
+    expect(state.message).toMatch(/Invalid window/);
+  });
+
+  it("renders a full screen and fits long series to the width", () => {
+    const state = { ...initialTuiState(), tab: 2, drill: "web" };
+    const data = buildTuiData(events, timezone, tuiRange(state, context));
+    const lines = renderTui(state, data, 80, 24);
+    expect(lines).toHaveLength(24);
+    expect(lines[1]).toBe("MTD: $7.00 (in 200, out 100)");
+    expect(lines[3]).toBe("web: $2.00 (in 100, out 50)");
+
+    const year = tuiRange({ ...state, window: "ytd" }, context);
+    expect(tuiSeries(events, year, timezone, 30).length).toBeLessThanOrEqual(30);
+    const today = tuiRange({ ...state, window: "today" }, context);
+    expect(tuiSeries(events, today, timezone, 60)).toHaveLength(24);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import type { Collector } from "../src/collectors/registry.js";
+import { acquireCollectionLock, readLock } from "../src/core/lock.js";
+import { formatRefreshSummary, runRefresh } from "../src/core/refresh.js";
+import { lastRefreshTime, readSyncState } from "../src/core/state.js";
+import { watchCollectors } from "../src/core/watch.js";
+import { useDataSandbox } from "./sandbox.js";
+
+describe("collection lock and watch", () => {
+  const dataDir = useDataSandbox("watch");
+
+  it("lets one process hold the lock and takes over stale ones", () => {
+    const first = acquireCollectionLock("watch");
+    expect(first.acquired).toBe(true);
+    if (!first.acquired) return;
+
+    const lockPath = path.join(dataDir(), "state", "collect.lock");
+    // A lock held by another live process (the parent of this one).
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({ pid: process.ppid, command: "watch", startedAt: "2026-02-02T00:00:00Z" })
+    );
+    const second = acquireCollectionLock("refresh");
+    expect(second).toMatchObject({ acquired: false, holder: { command: "watch" } });
+
+    // A lock whose process is gone.
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({ pid: 2 ** 22 + 1, command: "watch", startedAt: "2026-02-02T00:00:00Z" })
+    );
+    const third = acquireCollectionLock("refresh");
+    expect(third.acquired).toBe(true);
+    if (third.acquired) third.release();
+    expect(readLock()).toBeNull();
+  });
+
+  it("collects again when a watched directory changes", async () => {
+    const watched = path.join(dataDir(), "source");
+    fs.mkdirSync(watched);
+    let runs = 0;
+    const collector: Collector = {
+      name: "test",
+      label: "Test",
+      source: "custom",
+      isConfigured: () => true,
+      collect: async () => {
+        runs++;
+        return [];
+      },
+      health: () => ({ status: "ok", detail: watched }),
+      watchPaths: () => [watched],
+    };
+
+    const refreshed: number[] = [];
+    const watcher = watchCollectors({}, [collector], {
+      timezone: "UTC",
+      intervalMinutes: 60,
+      debounceMs: 20,
+      onRefresh: () => refreshed.push(runs),
+    });
+    const waitForRuns = async (count: number) => {
+      for (let i = 0; i < 200 && refreshed.length < count; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    await waitForRuns(1);
+    fs.writeFileSync(path.join(watched, "usage.jsonl"), "{}\n");
+    await waitForRuns(2);
+    await watcher.stop();
+
+    expect(refreshed.slice(0, 2)).toEqual([1, 2]);
+    const sync = readSyncState();
+    expect(sync.lastRefresh).toBe(sync.lastRun?.test);
+  });
+
+  it("stores the collectors that succeed when another one fails", async () => {
+    const base = {
+      source: "custom" as const,
+      isConfigured: () => true,
+      health: () => ({ status: "ok" as const, detail: "" }),
+    };
+    const working: Collector = { ...base, name: "working", label: "Working", collect: async () => [] };
+    const broken: Collector = {
+      ...base,
+      name: "broken",
+      label: "Broken",
+      collect: async () => {
+        throw new Error("source unreadable");
+      },
+    };
+
+    const result = await runRefresh({}, [working, broken], { timezone: "UTC" });
+
+    expect(result.runs.map((run) => run.collector.name)).toEqual(["working"]);
+    expect(result.failures.map((failure) => failure.collector.name)).toEqual(["broken"]);
+    expect(formatRefreshSummary(result)).toBe(
+      "Collected 0 events (0 new). Working 0. Broken failed: source unreadable"
+    );
+    const sync = readSyncState();
+    expect(Object.keys(sync.lastRun ?? {})).toEqual(["working"]);
+  });
+
+  it("falls back to the newest collector run for state without lastRefresh", () => {
+    expect(lastRefreshTime({})).toBeNull();
+    expect(
+      lastRefreshTime({ lastRun: { cursor: "2026-01-01T00:00:00.000Z", codex: "2026-02-01T00:00:00.000Z" } })
+    ).toBe("2026-02-01T00:00:00.000Z");
+  });
+});